@@ -1,24 +1,66 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { AssetBalance, AssetInfo } from '@ecdsa-node/protocol';
+import api from './api';
 import Wallet from './Wallet';
 import Transfer from './Transfer';
+import History from './History';
+import Multisig from './Multisig';
+import { Eip1193Provider } from './provider';
 import './App.scss';
 
 function App() {
-  const [balance, setBalance] = useState<number>(0);
+  const [portfolio, setPortfolio] = useState<AssetBalance[]>([]);
+  const [assets, setAssets] = useState<AssetInfo[]>([]);
   const [address, setAddress] = useState<string>('');
   const [privateKey, setPrivateKey] = useState<string>('');
+  const [provider, setProvider] = useState<Eip1193Provider | null>(null);
+  const [refreshKey, setRefreshKey] = useState<number>(0);
+
+  // Amounts travel in base units; each asset's decimals convert them to and from tokens
+  useEffect(() => {
+    api.getInfo()
+      .then((info) => setAssets(info.assets))
+      .catch(() => alert('❌ Could not load the server info, amounts are shown in base units'));
+  }, []);
 
   return (
     <div className="app">
-      <Wallet
-        balance={balance}
-        setBalance={setBalance}
-        address={address}
-        setAddress={setAddress}
-        privateKey={privateKey}
-        setPrivateKey={setPrivateKey}
-      />
-      <Transfer setBalance={setBalance} address={address} privateKey={privateKey} />
+      <div className="column">
+        <Wallet
+          portfolio={portfolio}
+          setPortfolio={setPortfolio}
+          assets={assets}
+          address={address}
+          setAddress={setAddress}
+          privateKey={privateKey}
+          setPrivateKey={setPrivateKey}
+          provider={provider}
+          setProvider={setProvider}
+          refreshKey={refreshKey}
+        />
+        <History
+          address={address}
+          portfolio={portfolio}
+          assets={assets}
+          refreshKey={refreshKey}
+        />
+      </div>
+      <div className="column">
+        <Transfer
+          address={address}
+          privateKey={privateKey}
+          provider={provider}
+          assets={assets}
+          onSubmitted={() => setRefreshKey((key) => key + 1)}
+        />
+        <Multisig
+          address={address}
+          privateKey={privateKey}
+          provider={provider}
+          assets={assets}
+          onSubmitted={() => setRefreshKey((key) => key + 1)}
+        />
+      </div>
     </div>
   );
 }
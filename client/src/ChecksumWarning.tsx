@@ -0,0 +1,30 @@
+import { hasValidChecksum, isAddress, toChecksumAddress } from '@ecdsa-node/protocol';
+
+interface ChecksumWarningProps {
+  address: string;
+}
+
+/**
+ * Warn under an address input when a complete address has a wrong EIP-55
+ * checksum, which usually means a typo, or carries no checksum at all
+ */
+function ChecksumWarning({ address }: ChecksumWarningProps) {
+  if (!isAddress(address)) {
+    return null;
+  }
+
+  const checksummed = toChecksumAddress(address);
+  if (!hasValidChecksum(address)) {
+    return (
+      <p className="checksum invalid">
+        {`⚠️ Checksum mismatch, check this address for typos (expected ${checksummed})`}
+      </p>
+    );
+  }
+  if (address !== checksummed) {
+    return <p className="checksum">{`No checksum to catch typos; checksummed: ${checksummed}`}</p>;
+  }
+  return null;
+}
+
+export default ChecksumWarning;
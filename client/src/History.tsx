@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import {
+  AssetBalance,
+  AssetInfo,
+  getTransfers,
+  PendingTransaction,
+  toChecksumAddress,
+  TransactionMessage,
+  TransactionPage,
+  TransferEntry,
+} from '@ecdsa-node/protocol';
+import { formatAssetAmount } from './amount';
+import api from './api';
+import { downloadReceipt } from './receipt';
+
+const PAGE_SIZE = 10;
+
+interface HistoryProps {
+  address: string;
+  portfolio: AssetBalance[];
+  assets: AssetInfo[];
+  refreshKey: number;
+}
+
+const sumAmounts = (transfers: TransferEntry[]): bigint =>
+  transfers.reduce((total, { amount }) => total + BigInt(amount), 0n);
+
+const describeRecipients = (transfers: TransferEntry[]): string =>
+  (transfers.length === 1
+    ? toChecksumAddress(transfers[0].recipient)
+    : `${transfers.length} recipients`);
+
+function History({
+  address,
+  portfolio,
+  assets,
+  refreshKey,
+}: HistoryProps) {
+  const [page, setPage] = useState<TransactionPage | null>(null);
+  const [pending, setPending] = useState<PendingTransaction[]>([]);
+  const [offset, setOffset] = useState<number>(0);
+
+  // Outgoing transfers paid their fee on top of the amounts
+  const describeFee = ({ fee, asset }: TransactionMessage): string =>
+    (fee !== undefined ? ` (fee ${formatAssetAmount(fee, assets, asset)})` : '');
+
+  const isValidAddress = /^0x[0-9a-fA-F]{40}$/.test(address);
+  // Changes whenever a balance in any asset does
+  const balances = portfolio.map(({ asset, balance }) => `${asset}:${balance}`).join(',');
+
+  // Start from the newest transactions whenever the wallet changes
+  useEffect(() => {
+    setOffset(0);
+  }, [address]);
+
+  // Refetch when a balance changes or a transfer is submitted so new transfers show up
+  useEffect(() => {
+    if (!isValidAddress) {
+      setPage(null);
+      setPending([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    api
+      .getTransactions(address, offset, PAGE_SIZE)
+      .then((data) => {
+        if (!cancelled) setPage(data);
+      })
+      .catch(() => {
+        if (!cancelled) setPage(null);
+      });
+
+    api
+      .getPendingTransactions(address)
+      .then((transactions) => {
+        if (!cancelled) setPending(transactions);
+      })
+      .catch(() => {
+        if (!cancelled) setPending([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, balances, refreshKey, offset, isValidAddress]);
+
+  if (!isValidAddress) {
+    return null;
+  }
+
+  const hasPrevious = offset > 0;
+  const hasNext = page !== null && offset + PAGE_SIZE < page.total;
+
+  return (
+    <div className="container history">
+      <h1>History</h1>
+
+      {pending.length > 0 && (
+        <>
+          <h2>Pending</h2>
+          <ul>
+            {pending.map((transaction) => (
+              <li key={transaction.messageHash} className="pending">
+                <span className="amount">
+                  -
+                  {formatAssetAmount(
+                    sumAmounts(getTransfers(transaction.message)),
+                    assets,
+                    transaction.message.asset,
+                  )}
+                </span>
+                <span className="counterparty">
+                  to
+                  {' '}
+                  {describeRecipients(getTransfers(transaction.message))}
+                  {describeFee(transaction.message)}
+                </span>
+                <span className="time">
+                  nonce
+                  {' '}
+                  {transaction.message.nonce}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {page && page.transactions.length > 0 ? (
+        <ul>
+          {page.transactions.map((transaction) => {
+            const isOutgoing = transaction.message.sender.toLowerCase() === address.toLowerCase();
+            const transfers = getTransfers(transaction.message);
+            const counterparty = isOutgoing
+              ? describeRecipients(transfers)
+              : toChecksumAddress(transaction.message.sender);
+            // Incoming batches only count the legs paid to this address
+            const amount = sumAmounts(isOutgoing
+              ? transfers
+              : transfers.filter(({ recipient }) =>
+                recipient.toLowerCase() === address.toLowerCase()));
+
+            return (
+              <li key={transaction.id} className={isOutgoing ? 'outgoing' : 'incoming'}>
+                <span className="amount">
+                  {isOutgoing ? '-' : '+'}
+                  {formatAssetAmount(amount, assets, transaction.message.asset)}
+                </span>
+                <span className="counterparty">
+                  {isOutgoing ? 'to' : 'from'}
+                  {' '}
+                  {counterparty}
+                  {isOutgoing && describeFee(transaction.message)}
+                </span>
+                <span className="time">{new Date(transaction.timestamp).toLocaleString()}</span>
+                <button
+                  type="button"
+                  className="receipt"
+                  title="Download the receipt signed by the server"
+                  onClick={() => downloadReceipt(transaction.messageHash)
+                    .catch((ex) => alert(`❌ ${(ex as Error).message}`))}
+                >
+                  Receipt
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p>No transactions yet</p>
+      )}
+
+      {(hasPrevious || hasNext) && (
+        <div className="pager">
+          <button
+            type="button"
+            className="button"
+            disabled={!hasPrevious}
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+          >
+            Newer
+          </button>
+          <button
+            type="button"
+            className="button"
+            disabled={!hasNext}
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default History;
@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { createMnemonic, isValidMnemonic, normalizePrivateKey } from '@ecdsa-node/protocol';
+import {
+  createVault,
+  deleteVault,
+  exportKeystore,
+  hasVault,
+  importKeystore,
+  listAccounts,
+  UnlockedVault,
+  unlockVault,
+} from './keystore';
+
+interface KeyVaultProps {
+  privateKey: string;
+  onSelect: (privateKey: string) => void;
+  onLock: () => void;
+}
+
+function KeyVault({ privateKey, onSelect, onLock }: KeyVaultProps) {
+  const [vault, setVault] = useState<UnlockedVault | null>(null);
+  const [isStored, setIsStored] = useState<boolean>(hasVault);
+  const [password, setPassword] = useState<string>('');
+  const [mnemonic, setMnemonic] = useState<string>('');
+  const [keystorePassword, setKeystorePassword] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const accounts = useMemo(() => (vault ? listAccounts(vault.secrets) : []), [vault]);
+  const currentKey = normalizePrivateKey(privateKey);
+  const selected = accounts.find((account) => account.privateKey === currentKey);
+
+  async function run(action: () => Promise<void>) {
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (ex) {
+      alert(`❌ ${(ex as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const open = (unlocked: UnlockedVault) => {
+    setVault(unlocked);
+    setIsStored(true);
+    setPassword('');
+
+    const [first] = listAccounts(unlocked.secrets);
+    if (first) onSelect(first.privateKey);
+  };
+
+  const create = (evt: React.FormEvent) => {
+    evt.preventDefault();
+
+    const phrase = mnemonic.trim() || createMnemonic();
+    if (!isValidMnemonic(phrase)) {
+      alert('❌ Invalid recovery phrase');
+      return;
+    }
+    if (password.length < 8) {
+      alert('❌ Choose a password of at least 8 characters');
+      return;
+    }
+
+    run(async () => {
+      open(await createVault(password, { mnemonic: phrase, hdAccountCount: 1, importedKeys: [] }));
+      setMnemonic('');
+      if (!mnemonic.trim()) {
+        alert(`✅ Wallet created. Write down your recovery phrase:\n\n${phrase}`);
+      }
+    });
+  };
+
+  const unlock = (evt: React.FormEvent) => {
+    evt.preventDefault();
+    run(async () => open(await unlockVault(password)));
+  };
+
+  const lock = () => {
+    setVault(null);
+    onLock();
+  };
+
+  const forget = () => {
+    if (window.confirm('Delete the stored wallet? Keys you have not backed up are lost.')) {
+      deleteVault();
+      setVault(null);
+      setIsStored(false);
+      onLock();
+    }
+  };
+
+  const addAccount = () => {
+    if (!vault) return;
+    run(async () => {
+      const updated = await vault.update({
+        ...vault.secrets,
+        hdAccountCount: vault.secrets.hdAccountCount + 1,
+      });
+      setVault(updated);
+      const added = listAccounts(updated.secrets)[updated.secrets.hdAccountCount - 1];
+      onSelect(added.privateKey);
+    });
+  };
+
+  // Add a key to the imported keys unless the vault already holds it, and select it
+  const storeKey = async (key: string) => {
+    if (!vault) return;
+    if (!accounts.some((account) => account.privateKey === key)) {
+      setVault(await vault.update({
+        ...vault.secrets,
+        importedKeys: [...vault.secrets.importedKeys, key],
+      }));
+    }
+    onSelect(key);
+  };
+
+  const importFile = (evt: React.ChangeEvent<HTMLInputElement>) => {
+    const file = evt.target.files?.[0];
+    evt.target.value = '';
+    if (!file) return;
+
+    run(async () => storeKey(await importKeystore(await file.text(), keystorePassword)));
+  };
+
+  const exportSelected = () => {
+    if (!selected) return;
+    run(async () => {
+      const keystore = await exportKeystore(selected.privateKey, keystorePassword);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(keystore, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `keystore-${selected.address}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  if (!vault) {
+    return isStored ? (
+      <form className="vault" onSubmit={unlock}>
+        <label>
+          Wallet Password
+          <input
+            type="password"
+            value={password}
+            onChange={(evt) => setPassword(evt.target.value)}
+            disabled={isLoading}
+          />
+        </label>
+        <div className="actions">
+          <input type="submit" className="button" value="Unlock" disabled={isLoading || !password} />
+          <button type="button" className="button" onClick={forget} disabled={isLoading}>
+            Forget Wallet
+          </button>
+        </div>
+      </form>
+    ) : (
+      <form className="vault" onSubmit={create}>
+        <label>
+          Recovery Phrase (leave empty to create a new one)
+          <textarea
+            value={mnemonic}
+            onChange={(evt) => setMnemonic(evt.target.value)}
+            disabled={isLoading}
+            rows={2}
+          />
+        </label>
+        <label>
+          New Wallet Password
+          <input
+            type="password"
+            value={password}
+            onChange={(evt) => setPassword(evt.target.value)}
+            disabled={isLoading}
+          />
+        </label>
+        <input type="submit" className="button" value="Create Wallet" disabled={isLoading} />
+      </form>
+    );
+  }
+
+  return (
+    <div className="vault">
+      <label>
+        Account
+        <select
+          value={selected?.privateKey ?? ''}
+          onChange={(evt) => onSelect(evt.target.value)}
+          disabled={isLoading}
+        >
+          {!selected && <option value="">Not a stored account</option>}
+          {accounts.map((account) => (
+            <option key={account.address} value={account.privateKey}>
+              {`${account.label}: ${account.address}`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="actions">
+        {vault.secrets.mnemonic && (
+          <button type="button" className="button" onClick={addAccount} disabled={isLoading}>
+            Add Account
+          </button>
+        )}
+        {currentKey && !selected && (
+          <button
+            type="button"
+            className="button"
+            onClick={() => run(() => storeKey(currentKey))}
+            disabled={isLoading}
+          >
+            Save Key
+          </button>
+        )}
+        <button type="button" className="button" onClick={lock} disabled={isLoading}>
+          Lock
+        </button>
+      </div>
+
+      <label>
+        Keystore Password (for v3 keystore files)
+        <input
+          type="password"
+          value={keystorePassword}
+          onChange={(evt) => setKeystorePassword(evt.target.value)}
+          disabled={isLoading}
+        />
+      </label>
+      <div className="actions">
+        <label className="button file">
+          Import Keystore
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={importFile}
+            disabled={isLoading || !keystorePassword}
+          />
+        </label>
+        <button
+          type="button"
+          className="button"
+          onClick={exportSelected}
+          disabled={isLoading || !selected || !keystorePassword}
+        >
+          Export Keystore
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default KeyVault;
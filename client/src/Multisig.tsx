@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import { AssetInfo, MultisigAccountInfo, toChecksumAddress } from '@ecdsa-node/protocol';
+import { formatAssetAmount, parseAmountInput } from './amount';
+import api from './api';
+import ChecksumWarning from './ChecksumWarning';
+import { explainPolicyViolation } from './policy';
+import { createLocalProvider, Eip1193Provider } from './provider';
+import {
+  createMultisigProposal,
+  exportProposal,
+  importProposal,
+  MultisigProposal,
+  signMultisigProposal,
+} from './proposal';
+
+// Co-signers may need a while to sign, so proposals use the longest validity the server allows
+const PROPOSAL_VALIDITY = 24 * 60 * 60 * 1000;
+
+interface MultisigProps {
+  address: string;
+  privateKey: string;
+  provider: Eip1193Provider | null;
+  assets: AssetInfo[];
+  onSubmitted: () => void;
+}
+
+// Server errors arrive as ApiError, whose message is the server's explanation
+const getErrorMessage = (ex: unknown): string => (ex as Error).message || 'An error occurred';
+
+function Multisig({
+  address,
+  privateKey,
+  provider,
+  assets,
+  onSubmitted,
+}: MultisigProps) {
+  const [owners, setOwners] = useState<string>('');
+  const [threshold, setThreshold] = useState<string>('');
+  const [account, setAccount] = useState<MultisigAccountInfo | null>(null);
+  const [multisigAddress, setMultisigAddress] = useState<string>('');
+  const [recipient, setRecipient] = useState<string>('');
+  const [sendAmount, setSendAmount] = useState<string>('');
+  const [proposal, setProposal] = useState<MultisigProposal | null>(null);
+  const [importText, setImportText] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const setValue = (setter: (value: string) => void) => (
+    evt: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+  ) => setter(evt.target.value);
+
+  // Load the owners and threshold of the account the current proposal spends from
+  const proposalSender = proposal?.message.sender;
+  useEffect(() => {
+    if (!proposalSender) {
+      setAccount(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    api.getMultisigAccount(proposalSender)
+      .then((data) => {
+        if (!cancelled) setAccount(data);
+      })
+      .catch(() => {
+        if (!cancelled) setAccount(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [proposalSender]);
+
+  async function run(action: () => Promise<void>) {
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (ex) {
+      alert(`❌ ${explainPolicyViolation(ex, assets) ?? getErrorMessage(ex)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const register = (evt: React.FormEvent) => {
+    evt.preventDefault();
+
+    run(async () => {
+      const ownerList = owners.split(/[\s,]+/).filter(Boolean);
+      const created = await api.registerMultisig(ownerList, parseInt(threshold, 10));
+      setMultisigAddress(created.address);
+      alert(`✅ Multisig account ${created.address}\n\n${created.threshold} of ${created.owners.length} owners must sign.`);
+    });
+  };
+
+  const propose = (evt: React.FormEvent) => {
+    evt.preventDefault();
+
+    // Proposals made here move the default asset; imported ones may name another
+    const amount = parseAmountInput(sendAmount, assets[0]?.decimals ?? 0);
+    if (!multisigAddress || !recipient || amount === undefined) {
+      alert('Please enter the multisig address, a recipient and a valid positive amount');
+      return;
+    }
+
+    run(async () => {
+      const timestamp = Date.now();
+      setProposal(await createMultisigProposal({
+        sender: multisigAddress,
+        recipient,
+        amount,
+        timestamp,
+        validUntil: timestamp + PROPOSAL_VALIDITY,
+      }));
+    });
+  };
+
+  const importFromText = () => {
+    try {
+      setProposal(importProposal(importText));
+      setImportText('');
+    } catch (ex) {
+      alert(`❌ ${(ex as Error).message}`);
+    }
+  };
+
+  const sign = () => {
+    const signer = provider ?? (privateKey ? createLocalProvider(privateKey) : null);
+    if (!proposal || !signer || !address) {
+      alert('Please enter your private key or connect a browser wallet in the wallet section first');
+      return;
+    }
+
+    run(async () => {
+      setProposal(await signMultisigProposal(proposal, signer, address));
+    });
+  };
+
+  const copy = () => {
+    if (proposal) {
+      navigator.clipboard.writeText(exportProposal(proposal));
+    }
+  };
+
+  const submit = () => {
+    if (!proposal) {
+      return;
+    }
+
+    run(async () => {
+      const { status } = await api.submit(proposal);
+      onSubmitted();
+      setProposal(null);
+      alert(status === 'pending'
+        ? '⏳ Multisig transaction queued until earlier transactions go through'
+        : '✅ Multisig transaction successful!');
+    });
+  };
+
+  return (
+    <div className="container multisig">
+      <h1>Multisig</h1>
+
+      <form onSubmit={register}>
+        <h2>Create Account</h2>
+        <label>
+          Owners (one address per line)
+          <textarea
+            value={owners}
+            onChange={setValue(setOwners)}
+            disabled={isLoading}
+            rows={3}
+          />
+          {owners.split('\n').map((owner) => owner.trim()).map((owner, index) => (
+            // Lines have no identity of their own beyond their position
+            <ChecksumWarning key={index} address={owner} />
+          ))}
+        </label>
+        <label>
+          Required Signatures
+          <input
+            value={threshold}
+            onChange={setValue(setThreshold)}
+            disabled={isLoading}
+            type="number"
+            min="1"
+          />
+        </label>
+        <input type="submit" className="button" value="Register" disabled={isLoading} />
+      </form>
+
+      <form onSubmit={propose}>
+        <h2>New Proposal</h2>
+        <label>
+          Multisig Address
+          <input
+            placeholder="0x..."
+            value={multisigAddress}
+            onChange={setValue(setMultisigAddress)}
+            disabled={isLoading}
+          />
+          <ChecksumWarning address={multisigAddress} />
+        </label>
+        <label>
+          Recipient
+          <input
+            placeholder="0x..."
+            value={recipient}
+            onChange={setValue(setRecipient)}
+            disabled={isLoading}
+          />
+          <ChecksumWarning address={recipient} />
+        </label>
+        <label>
+          {assets[0] ? `Amount (${assets[0].symbol})` : 'Amount'}
+          <input
+            value={sendAmount}
+            onChange={setValue(setSendAmount)}
+            disabled={isLoading}
+            inputMode="decimal"
+          />
+        </label>
+        <input type="submit" className="button" value="Create Proposal" disabled={isLoading} />
+      </form>
+
+      <h2>Import Proposal</h2>
+      <label>
+        Proposal from a co-signer
+        <textarea
+          value={importText}
+          onChange={setValue(setImportText)}
+          disabled={isLoading}
+          rows={4}
+        />
+      </label>
+      <button type="button" className="button" onClick={importFromText} disabled={isLoading || !importText}>
+        Import
+      </button>
+
+      {proposal && (
+        <div className="proposal">
+          <h2>Current Proposal</h2>
+          <p>
+            {formatAssetAmount(proposal.message.amount ?? '0', assets, proposal.message.asset)}
+            {' from '}
+            {toChecksumAddress(proposal.message.sender)}
+            {' to '}
+            {proposal.message.recipient && toChecksumAddress(proposal.message.recipient)}
+            {proposal.message.fee !== undefined
+              && ` plus a fee of ${formatAssetAmount(proposal.message.fee, assets, proposal.message.asset)}`}
+            {` (nonce ${proposal.message.nonce})`}
+          </p>
+          <p>
+            {`Signatures: ${proposal.signatures.length}`}
+            {account && ` of ${account.threshold} required`}
+          </p>
+          <textarea value={exportProposal(proposal)} readOnly rows={6} />
+          <div className="actions">
+            <button type="button" className="button" onClick={sign} disabled={isLoading}>
+              Sign
+            </button>
+            <button type="button" className="button" onClick={copy} disabled={isLoading}>
+              Copy for Co-signers
+            </button>
+            <button
+              type="button"
+              className="button"
+              onClick={submit}
+              disabled={isLoading || !account || proposal.signatures.length < account.threshold}
+            >
+              Submit
+            </button>
+            <button type="button" className="button" onClick={() => setProposal(null)} disabled={isLoading}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Multisig;
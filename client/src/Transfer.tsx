@@ -1,87 +1,168 @@
 import React, { useState } from 'react';
-import { AxiosError } from 'axios';
-import server from './server';
-import { signTransaction } from './crypto';
+import {
+  AssetInfo,
+  createKeySigner,
+  getDuplicateRecipients,
+  TransactionSigner,
+  TransferEntry,
+} from '@ecdsa-node/protocol';
+import { formatAssetAmount, formatFeeSchedule, parseAmountInput } from './amount';
+import api from './api';
+import ChecksumWarning from './ChecksumWarning';
+import { explainPolicyViolation } from './policy';
+import { checkReceipt } from './receipt';
+import { createProviderSigner, Eip1193Provider } from './provider';
 
 interface TransferProps {
   address: string;
-  setBalance: (balance: number) => void;
   privateKey: string;
+  provider: Eip1193Provider | null;
+  assets: AssetInfo[];
+  onSubmitted: () => void;
 }
 
-interface ErrorResponse {
-  code: string;
-  message: string;
-  details?: unknown;
+// How long a signed transfer stays valid, in minutes (the server allows at most 24 hours)
+const EXPIRY_OPTIONS = [
+  { label: '5 minutes', minutes: 5 },
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '24 hours', minutes: 24 * 60 },
+];
+const DEFAULT_EXPIRY_MINUTES = 60;
+
+// The server accepts at most this many legs in one batch
+const MAX_BATCH_ROWS = 50;
+
+interface BatchRow {
+  recipient: string;
+  amount: string;
+}
+
+const EMPTY_ROW: BatchRow = { recipient: '', amount: '' };
+
+/**
+ * Wrap a signer so the user confirms the exact fee of the final message,
+ * nonce and all, before it is signed
+ */
+function confirmFee(signer: TransactionSigner, assets: AssetInfo[]): TransactionSigner {
+  return {
+    version: signer.version,
+    sign: (message) => {
+      const fee = formatAssetAmount(message.fee ?? '0', assets, message.asset);
+      if (message.fee !== undefined && !window.confirm(`This transfer costs a fee of ${fee}. Sign it?`)) {
+        return Promise.reject(new Error('Fee not accepted, nothing was signed'));
+      }
+      return signer.sign(message);
+    },
+  };
 }
 
-function Transfer({ address, setBalance, privateKey }: TransferProps) {
+function Transfer({
+  address,
+  privateKey,
+  provider,
+  assets,
+  onSubmitted,
+}: TransferProps) {
+  const [assetSymbol, setAssetSymbol] = useState<string>('');
   const [sendAmount, setSendAmount] = useState<string>('');
   const [recipient, setRecipient] = useState<string>('');
+  const [isBatch, setIsBatch] = useState<boolean>(false);
+  const [rows, setRows] = useState<BatchRow[]>([EMPTY_ROW, EMPTY_ROW]);
+  const [expiryMinutes, setExpiryMinutes] = useState<number>(DEFAULT_EXPIRY_MINUTES);
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
+  // The default asset is listed first and selected until the user picks another
+  const asset = assets.find(({ symbol }) => symbol === assetSymbol) ?? assets[0];
+  const decimals = asset?.decimals ?? 0;
+  const feeSchedule = asset && formatFeeSchedule(asset);
+
   const setValue = (setter: (value: string) => void) => (
     evt: React.ChangeEvent<HTMLInputElement>,
   ) => setter(evt.target.value);
 
+  const updateRow = (index: number, field: keyof BatchRow) => (
+    evt: React.ChangeEvent<HTMLInputElement>,
+  ) => setRows(rows.map((row, i) => (i === index ? { ...row, [field]: evt.target.value } : row)));
+
   async function transfer(evt: React.FormEvent) {
     evt.preventDefault();
 
-    if (!privateKey) {
-      alert('Please enter your private key in the wallet section first');
+    if (!privateKey && !provider) {
+      alert('Please enter your private key or connect a browser wallet in the wallet section first');
       return;
     }
 
-    if (!recipient || !sendAmount) {
-      alert('Please enter both recipient address and amount');
+    const legs = (isBatch ? rows : [{ recipient, amount: sendAmount }])
+      .map((row) => ({ recipient: row.recipient, amount: parseAmountInput(row.amount, decimals) }));
+
+    if (legs.some((leg) => !leg.recipient)) {
+      alert('Please enter a recipient address and amount for every transfer');
       return;
     }
 
-    const amount = parseInt(sendAmount, 10);
-    if (Number.isNaN(amount) || amount <= 0) {
-      alert('Please enter a valid positive amount');
+    if (!legs.every((leg): leg is TransferEntry => leg.amount !== undefined)) {
+      alert(`Please enter a valid positive amount with at most ${decimals} decimal places`);
+      return;
+    }
+
+    const [duplicate] = getDuplicateRecipients(legs);
+    if (duplicate) {
+      alert(`Please list each recipient once: ${duplicate} appears more than once`);
       return;
     }
 
     setIsLoading(true);
 
     try {
-      // Fetch current nonce
-      const { data: { nonce: currentNonce } } = await server.get<{ nonce: number }>(`nonce/${address}`);
-
-      // Create the transaction message with nonce
-      const message = {
+      // Create the transfer with its expiry; a batch lists every leg under one
+      // nonce and is applied all-or-nothing
+      const timestamp = Date.now();
+      const common = {
         sender: address,
-        recipient,
-        amount,
-        nonce: currentNonce + 1,
+        ...(asset ? { asset: asset.symbol } : {}),
+        timestamp,
+        validUntil: timestamp + expiryMinutes * 60 * 1000,
       };
+      const transfer = isBatch ? { ...common, transfers: legs } : { ...common, ...legs[0] };
 
-      // Sign the transaction
-      const { signature, messageHash } = await signTransaction(privateKey, message);
+      // Sign through the browser wallet if one is connected; the nonce comes after any
+      // transfers still waiting in the mempool, so several can be queued in a row
+      const signer = provider
+        ? createProviderSigner(provider, address)
+        : createKeySigner(privateKey);
+      const data = await api.send(transfer, confirmFee(signer, assets));
 
-      // Send the signed transaction to the server
-      const {
-        data,
-      } = await server.post<{ balance: number; newNonce: number; recipient: { address: string; newBalance: number } }>('send', {
-        message,
-        signature,
-        messageHash,
-      });
+      onSubmitted();
 
-      setBalance(data.balance);
+      if (data.status === 'pending') {
+        alert(`⏳ Transaction queued with nonce ${data.nonce}\n\nIt will be applied once your earlier transactions go through.`);
+      } else {
+        // The transfer is applied either way; a receipt that fails the check is only reported
+        const receiptNote = await checkReceipt(data.receipt).then(
+          () => `The server signed receipt #${data.receipt.receipt.sequence}; download it from the history.`,
+          (ex: Error) => `⚠️ The server's receipt could not be verified: ${ex.message}`,
+        );
 
-      alert(`✅ Transaction successful!\n\nYour new balance: ${data.balance}\nRecipient's new balance: ${data.recipient.newBalance}`);
+        const promotedNote = data.promoted.length > 0
+          ? `\n${data.promoted.length} queued transaction(s) were applied as well.`
+          : '';
+        const recipientNote = data.recipients
+          ? `${data.recipients.length} recipients were paid.`
+          : `Recipient's new balance: ${formatAssetAmount(data.recipient?.newBalance ?? '0', assets, asset?.symbol)}`;
+        const feeNote = BigInt(data.fee) > 0n
+          ? `\nFee paid: ${formatAssetAmount(data.fee, assets, asset?.symbol)}`
+          : '';
+        alert(`✅ Transaction successful!\n\nYour new balance: ${formatAssetAmount(data.balance, assets, asset?.symbol)}${feeNote}\n${recipientNote}${promotedNote}\n\n${receiptNote}`);
+      }
 
       // Clear form
       setSendAmount('');
       setRecipient('');
+      setRows([EMPTY_ROW, EMPTY_ROW]);
     } catch (ex) {
-      const error = ex as AxiosError<ErrorResponse>;
-
-      const errorMessage = error.response?.data?.message
-        || error.message
-        || 'An error occurred';
+      const errorMessage = explainPolicyViolation(ex, assets, asset?.symbol)
+        || (ex as Error).message || 'An error occurred';
 
       alert(`❌ Transaction failed: ${errorMessage}`);
     } finally {
@@ -94,25 +175,115 @@ function Transfer({ address, setBalance, privateKey }: TransferProps) {
       <h1>Send Transaction</h1>
 
       <label>
-        Send Amount
+        Asset
+        <select
+          value={asset?.symbol ?? ''}
+          onChange={(evt) => setAssetSymbol(evt.target.value)}
+          disabled={isLoading || assets.length < 2}
+        >
+          {assets.map(({ symbol }) => (
+            <option key={symbol} value={symbol}>{symbol}</option>
+          ))}
+        </select>
+      </label>
+
+      {feeSchedule && (
+        <p className="fee">{`Fee: ${feeSchedule}, confirmed before signing`}</p>
+      )}
+
+      <label className="checkbox">
         <input
-          placeholder="1, 2, 3..."
-          value={sendAmount}
-          onChange={setValue(setSendAmount)}
+          type="checkbox"
+          checked={isBatch}
+          onChange={(evt) => setIsBatch(evt.target.checked)}
           disabled={isLoading}
-          type="number"
-          min="1"
         />
+        Pay several recipients in one transaction
       </label>
 
+      {isBatch ? (
+        <>
+          {rows.map((row, index) => (
+            // Rows have no identity of their own and are only removed from the end
+            <div className="batch-row" key={index}>
+              <label>
+                {`Recipient ${index + 1}`}
+                <input
+                  placeholder="0x2b3c..."
+                  value={row.recipient}
+                  onChange={updateRow(index, 'recipient')}
+                  disabled={isLoading}
+                />
+                <ChecksumWarning address={row.recipient} />
+              </label>
+              <label>
+                Amount
+                <input
+                  placeholder="1.5"
+                  value={row.amount}
+                  onChange={updateRow(index, 'amount')}
+                  disabled={isLoading}
+                  inputMode="decimal"
+                />
+              </label>
+            </div>
+          ))}
+          <div className="batch-actions">
+            <button
+              type="button"
+              className="button"
+              onClick={() => setRows([...rows, EMPTY_ROW])}
+              disabled={isLoading || rows.length >= MAX_BATCH_ROWS}
+            >
+              Add Recipient
+            </button>
+            <button
+              type="button"
+              className="button"
+              onClick={() => setRows(rows.slice(0, -1))}
+              disabled={isLoading || rows.length <= 1}
+            >
+              Remove Last
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <label>
+            Send Amount
+            <input
+              placeholder="1.5"
+              value={sendAmount}
+              onChange={setValue(setSendAmount)}
+              disabled={isLoading}
+              inputMode="decimal"
+            />
+          </label>
+
+          <label>
+            Recipient
+            <input
+              placeholder="Type an address, for example: 0x2b3c..."
+              value={recipient}
+              onChange={setValue(setRecipient)}
+              disabled={isLoading}
+            />
+            <ChecksumWarning address={recipient} />
+          </label>
+        </>
+      )}
+
       <label>
-        Recipient
-        <input
-          placeholder="Type an address, for example: 0x2b3c..."
-          value={recipient}
-          onChange={setValue(setRecipient)}
+        Valid For
+        <select
+          value={expiryMinutes}
+          onChange={(evt) => setExpiryMinutes(Number(evt.target.value))}
           disabled={isLoading}
-        />
+        >
+          {EXPIRY_OPTIONS.map(({ label, minutes }) => (
+            <option key={minutes} value={minutes}>{label}</option>
+          ))}
+        </select>
       </label>
 
       <input
@@ -1,94 +1,132 @@
-import React from 'react';
-import * as secp from '@noble/secp256k1';
-import { keccak_256 } from '@noble/hashes/sha3';
-import server from './server';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AssetBalance,
+  AssetInfo,
+  StateCommitment,
+  toChecksumAddress,
+} from '@ecdsa-node/protocol';
+import { formatAssetAmount } from './amount';
+import api from './api';
+import ChecksumWarning from './ChecksumWarning';
+import { fetchVerifiedBalance, getPortfolio } from './state';
+import { Eip1193Provider, getInjectedProvider, requestAccount } from './provider';
+import { deriveAddress } from './keys';
+import KeyVault from './KeyVault';
 
 interface WalletProps {
   address: string;
   setAddress: (address: string) => void;
-  balance: number;
-  setBalance: (balance: number) => void;
+  portfolio: AssetBalance[];
+  setPortfolio: (portfolio: AssetBalance[]) => void;
+  assets: AssetInfo[];
   privateKey: string;
   setPrivateKey: (privateKey: string) => void;
+  provider: Eip1193Provider | null;
+  setProvider: (provider: Eip1193Provider | null) => void;
+  refreshKey: number;
 }
 
+const isValidAddress = (address: string): boolean => /^0x[0-9a-fA-F]{40}$/.test(address);
+
 function Wallet({
   address,
   setAddress,
-  balance,
-  setBalance,
+  portfolio,
+  setPortfolio,
+  assets,
   privateKey,
   setPrivateKey,
+  provider,
+  setProvider,
+  refreshKey,
 }: WalletProps) {
+  const injectedProvider = getInjectedProvider();
+  const [commitment, setCommitment] = useState<StateCommitment | null>(null);
+  const [proofError, setProofError] = useState<string>('');
 
-  function deriveAddress(privateKey: string): string {
+  // Only show balances whose Merkle proof matches the state root signed by the server
+  const loadBalance = useCallback(async (target: string) => {
     try {
-      const cleanPrivKey = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
-
-      // Validate hex string
-      if (!/^[0-9a-fA-F]{64}$/.test(cleanPrivKey)) {
-        return '';
-      }
-
-      // Get uncompressed public key (65 bytes: 0x04 + 32 bytes X + 32 bytes Y)
-      const publicKey = secp.getPublicKey(secp.etc.hexToBytes(cleanPrivKey), false);
-
-      // Remove the 0x04 prefix (first byte)
-      const publicKeyWithoutPrefix = publicKey.slice(1);
-
-      // Hash the public key using Keccak-256
-      const hash = keccak_256(publicKeyWithoutPrefix);
-
-      // Take the last 20 bytes as the address
-      const addressBytes = hash.slice(-20);
-
-      return `0x${secp.etc.bytesToHex(addressBytes)}`;
-    } catch {
-      return '';
+      const proof = await fetchVerifiedBalance(target);
+      setPortfolio(getPortfolio(proof, assets));
+      setCommitment(proof.commitment.commitment);
+      setProofError('');
+    } catch (ex) {
+      setPortfolio([]);
+      setCommitment(null);
+      setProofError((ex as Error).message);
     }
-  }
+  }, [assets, setPortfolio]);
 
-  async function onAddressChange(evt: React.ChangeEvent<HTMLInputElement>) {
-    const newAddress = evt.target.value;
-    setAddress(newAddress);
-
-    // Validate address format (starts with 0x and has 40 hex characters)
-    const cleanAddress = newAddress.startsWith('0x') ? newAddress.slice(2) : newAddress;
-    const isValidAddress = /^[0-9a-fA-F]{40}$/.test(cleanAddress);
-
-    if (isValidAddress) {
-      try {
-        const {
-          data: { balance: newBalance },
-        } = await server.get<{ balance: number }>(`balance/${newAddress}`);
-        setBalance(newBalance);
-      } catch {
-        setBalance(0);
-      }
+  // Reload when the wallet changes or a transfer is submitted
+  useEffect(() => {
+    if (isValidAddress(address)) {
+      loadBalance(address);
     } else {
-      setBalance(0);
+      setPortfolio([]);
+      setCommitment(null);
+      setProofError('');
+    }
+  }, [address, refreshKey, loadBalance, setPortfolio]);
+
+  // Follow the active address so incoming transfers show up without a reload
+  useEffect(() => {
+    if (!isValidAddress(address)) {
+      return undefined;
     }
+
+    return api.subscribe([address], {
+      // Events sent while disconnected are not replayed, so reload on every (re)connect
+      open: () => loadBalance(address),
+      balance: () => loadBalance(address),
+      // A refusal of POST /send is already shown by the form that submitted it
+      rejected: ({ nonce, message, pending }) => {
+        if (pending) {
+          alert(`❌ Pending transaction with nonce ${nonce} was dropped: ${message}`);
+        }
+      },
+    });
+  }, [address, loadBalance]);
+
+  function onAddressChange(evt: React.ChangeEvent<HTMLInputElement>) {
+    setAddress(evt.target.value);
   }
 
-  async function onPrivateKeyChange(evt: React.ChangeEvent<HTMLInputElement>) {
-    const newPrivateKey = evt.target.value;
+  function selectPrivateKey(newPrivateKey: string) {
     setPrivateKey(newPrivateKey);
 
     const derivedAddress = deriveAddress(newPrivateKey);
 
     if (derivedAddress) {
       setAddress(derivedAddress);
-      try {
-        const {
-          data: { balance: newBalance },
-        } = await server.get<{ balance: number }>(`balance/${derivedAddress}`);
-        setBalance(newBalance);
-      } catch {
-        setBalance(0);
-      }
     }
   }
 
+  function lockWallet() {
+    setPrivateKey('');
+    setAddress('');
+  }
+
+  async function connectWallet() {
+    if (!injectedProvider) {
+      return;
+    }
+
+    try {
+      const account = await requestAccount(injectedProvider);
+      setProvider(injectedProvider);
+      setPrivateKey('');
+      setAddress(toChecksumAddress(account));
+    } catch (ex) {
+      alert(`❌ Could not connect wallet: ${(ex as Error).message}`);
+    }
+  }
+
+  function disconnectWallet() {
+    setProvider(null);
+    setAddress('');
+  }
+
   return (
     <div className="container wallet">
       <h1>Your Wallet</h1>
@@ -99,24 +137,60 @@ function Wallet({
           placeholder="Type an address to view balance, for example: 0x1a2b3c..."
           value={address}
           onChange={onAddressChange}
+          disabled={provider !== null}
         />
       </label>
-
-      <label>
-            Private Key (optional, required for transactions)
-        <input
-          placeholder="Type your private key to sign transactions, for example: 0xa1b2c3..."
-          value={privateKey}
-          onChange={onPrivateKeyChange}
-          type="password"
-        />
-      </label>
+      <ChecksumWarning address={address} />
+
+      {provider ? (
+        <>
+          <p>Transactions are signed by your browser wallet.</p>
+          <button type="button" className="button" onClick={disconnectWallet}>
+            Disconnect Wallet
+          </button>
+        </>
+      ) : (
+        <>
+          <label>
+                Private Key (optional, required for transactions)
+            <input
+              placeholder="Type your private key to sign transactions, for example: 0xa1b2c3..."
+              value={privateKey}
+              onChange={(evt) => selectPrivateKey(evt.target.value)}
+              type="password"
+            />
+          </label>
+
+          <KeyVault privateKey={privateKey} onSelect={selectPrivateKey} onLock={lockWallet} />
+
+          {injectedProvider && (
+            <button type="button" className="button" onClick={connectWallet}>
+              Connect Browser Wallet
+            </button>
+          )}
+        </>
+      )}
 
       <div className="balance">
         Balance:
         {' '}
-        {address ? balance : 'Enter an address to view balance'}
+        {address
+          ? formatAssetAmount(portfolio[0]?.balance ?? 0n, assets)
+          : 'Enter an address to view balance'}
       </div>
+      {address && portfolio.length > 1 && (
+        <ul className="portfolio">
+          {portfolio.slice(1).map(({ asset, balance }) => (
+            <li key={asset}>{formatAssetAmount(balance, assets, asset)}</li>
+          ))}
+        </ul>
+      )}
+      {commitment && (
+        <p className="proof">
+          {`Proven against state root ${commitment.root.slice(0, 10)}… (version ${commitment.version})`}
+        </p>
+      )}
+      {proofError && <p className="proof invalid">{`⚠️ Balance not verified: ${proofError}`}</p>}
     </div>
   );
 }
@@ -0,0 +1,54 @@
+import { AssetInfo, formatUnits, parseUnits } from '@ecdsa-node/protocol';
+
+/**
+ * Convert an amount typed in tokens, e.g. "1.5", to base units for a message
+ * Parsed as a decimal string, so no precision is lost to floating point
+ * @returns The base units as a decimal string, or undefined if the text is not
+ * a positive amount with at most `decimals` fraction digits
+ */
+export function parseAmountInput(text: string, decimals: number): string | undefined {
+  try {
+    const amount = parseUnits(text.trim(), decimals);
+    return amount > 0n ? amount.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find a registered asset by symbol; messages without an asset move the
+ * default asset, which the server lists first
+ */
+export function findAsset(assets: readonly AssetInfo[], symbol?: string): AssetInfo | undefined {
+  return symbol === undefined ? assets[0] : assets.find((asset) => asset.symbol === symbol);
+}
+
+/**
+ * Format base units of an asset in tokens with its symbol, e.g. "1.5 USDC"
+ * Amounts of an asset the server does not list are left in base units
+ */
+export function formatAssetAmount(
+  amount: bigint | string,
+  assets: readonly AssetInfo[],
+  symbol?: string,
+): string {
+  const asset = findAsset(assets, symbol);
+  if (!asset) {
+    return symbol ? `${amount} ${symbol}` : String(amount);
+  }
+  return `${formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+}
+
+/**
+ * Describe an asset's fee schedule, e.g. "0.01 USDC + 0.0001 USDC per signed byte"
+ * @returns undefined when the asset's transfers are free
+ */
+export function formatFeeSchedule({ symbol, decimals, fee }: AssetInfo): string | undefined {
+  const base = BigInt(fee.base);
+  const perByte = BigInt(fee.perByte);
+  const parts = [
+    ...(base > 0n ? [`${formatUnits(base, decimals)} ${symbol}`] : []),
+    ...(perByte > 0n ? [`${formatUnits(perByte, decimals)} ${symbol} per signed byte`] : []),
+  ];
+  return parts.length > 0 ? parts.join(' + ') : undefined;
+}
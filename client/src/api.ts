@@ -0,0 +1,8 @@
+import { EcdsaNodeClient } from '@ecdsa-node/protocol';
+
+/**
+ * Client for the server at VITE_API_URL (default http://localhost:3042)
+ */
+const api = new EcdsaNodeClient({ baseUrl: import.meta.env.VITE_API_URL });
+
+export default api;
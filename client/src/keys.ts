@@ -0,0 +1,13 @@
+import { normalizePrivateKey, privateKeyToAddress, toChecksumAddress } from '@ecdsa-node/protocol';
+
+/**
+ * Derive the checksummed address of a private key, or return an empty string
+ * if the key is invalid
+ */
+export function deriveAddress(privateKey: string): string {
+  const clean = normalizePrivateKey(privateKey);
+  if (!clean) {
+    return '';
+  }
+  return toChecksumAddress(privateKeyToAddress(clean));
+}
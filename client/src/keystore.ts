@@ -0,0 +1,193 @@
+import * as secp from '@noble/secp256k1';
+import {
+  decryptKeystore,
+  deriveHdPrivateKeys,
+  encryptKeystore,
+  KeystoreFile,
+  KeystoreV3,
+} from '@ecdsa-node/protocol';
+import { deriveAddress } from './keys';
+
+const VAULT_STORAGE_KEY = 'ecdsa-node:vault';
+const VAULT_PBKDF2_ITERATIONS = 600000;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+const randomBytes = (length: number): Bytes => crypto.getRandomValues(new Uint8Array(length));
+
+// Web Crypto needs ArrayBuffer-backed arrays, so decode into a fresh copy
+const hexToBuffer = (hex: string): Bytes => new Uint8Array(secp.etc.hexToBytes(hex));
+
+/**
+ * Secrets protected by the wallet password: an optional HD mnemonic with the
+ * number of accounts derived from it, and individually imported keys
+ */
+export interface VaultSecrets {
+  mnemonic?: string;
+  hdAccountCount: number;
+  importedKeys: string[];
+}
+
+export interface WalletAccount {
+  label: string;
+  address: string;
+  privateKey: string;
+}
+
+/**
+ * Vault as kept in localStorage: the secrets encrypted with AES-GCM under a
+ * key derived from the password with PBKDF2-SHA256
+ */
+interface StoredVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Unlocked vault; the derived key stays in memory until the vault is locked
+ */
+export interface UnlockedVault {
+  secrets: VaultSecrets;
+  update(secrets: VaultSecrets): Promise<UnlockedVault>;
+}
+
+async function deriveVaultKey(password: string, salt: Bytes, iterations: number) {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2', hash: 'SHA-256', salt, iterations,
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * Wrap a derived key so the secrets can be re-encrypted and saved without
+ * asking for the password again
+ */
+function createUnlockedVault(
+  key: CryptoKey,
+  salt: Bytes,
+  iterations: number,
+  secrets: VaultSecrets,
+): UnlockedVault {
+  return {
+    secrets,
+    async update(newSecrets: VaultSecrets) {
+      const iv = randomBytes(12);
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        textEncoder.encode(JSON.stringify(newSecrets)),
+      );
+
+      const stored: StoredVault = {
+        version: 1,
+        iterations,
+        salt: secp.etc.bytesToHex(salt),
+        iv: secp.etc.bytesToHex(iv),
+        ciphertext: secp.etc.bytesToHex(new Uint8Array(ciphertext)),
+      };
+      localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(stored));
+
+      return createUnlockedVault(key, salt, iterations, newSecrets);
+    },
+  };
+}
+
+export function hasVault(): boolean {
+  return localStorage.getItem(VAULT_STORAGE_KEY) !== null;
+}
+
+export function deleteVault(): void {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+}
+
+/**
+ * Encrypt the secrets under a new password and store them, replacing any existing vault
+ */
+export async function createVault(password: string, secrets: VaultSecrets): Promise<UnlockedVault> {
+  const salt = randomBytes(16);
+  const key = await deriveVaultKey(password, salt, VAULT_PBKDF2_ITERATIONS);
+  return createUnlockedVault(key, salt, VAULT_PBKDF2_ITERATIONS, secrets).update(secrets);
+}
+
+/**
+ * Decrypt the stored vault (throws on a wrong password or missing vault)
+ */
+export async function unlockVault(password: string): Promise<UnlockedVault> {
+  const item = localStorage.getItem(VAULT_STORAGE_KEY);
+  if (!item) {
+    throw new Error('No wallet is stored in this browser');
+  }
+
+  const stored = JSON.parse(item) as StoredVault;
+  const salt = hexToBuffer(stored.salt);
+  const key = await deriveVaultKey(password, salt, stored.iterations);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: hexToBuffer(stored.iv) },
+      key,
+      hexToBuffer(stored.ciphertext),
+    );
+    const secrets = JSON.parse(textDecoder.decode(plaintext)) as VaultSecrets;
+    return createUnlockedVault(key, salt, stored.iterations, secrets);
+  } catch {
+    throw new Error('Wrong password');
+  }
+}
+
+/**
+ * List the HD accounts followed by the imported keys (pure function)
+ */
+export function listAccounts(secrets: VaultSecrets): WalletAccount[] {
+  const hdKeys = secrets.mnemonic
+    ? deriveHdPrivateKeys(secrets.mnemonic, secrets.hdAccountCount)
+    : [];
+
+  return [
+    ...hdKeys.map((privateKey, index) => ({
+      label: `Account ${index + 1}`,
+      address: deriveAddress(privateKey),
+      privateKey,
+    })),
+    ...secrets.importedKeys.map((privateKey, index) => ({
+      label: `Imported ${index + 1}`,
+      address: deriveAddress(privateKey),
+      privateKey,
+    })),
+  ];
+}
+
+/**
+ * Encrypt a private key into a v3 keystore, using PBKDF2 so it stays fast in the browser
+ */
+export function exportKeystore(privateKey: string, password: string): Promise<KeystoreV3> {
+  return encryptKeystore(privateKey, password, 'pbkdf2');
+}
+
+/**
+ * Decrypt a v3 keystore file, whether its section is named `crypto` or
+ * `Crypto`, and return the private key as hex
+ * (throws on a wrong password or unsupported keystore)
+ */
+export function importKeystore(json: string, password: string): Promise<string> {
+  return decryptKeystore(JSON.parse(json) as KeystoreFile, password);
+}
@@ -0,0 +1,75 @@
+import { AssetInfo, ErrorCode, isApiError } from '@ecdsa-node/protocol';
+import { formatAssetAmount } from './amount';
+
+/**
+ * Union of the details the server attaches to each policy error code
+ */
+interface PolicyViolationDetails {
+  account: string;
+  role: 'sender' | 'recipient' | 'feeRecipient';
+  recipient: string;
+  allowed: string[];
+  asset?: string;
+  limit: string;
+  window: number;
+  required: string;
+  remaining: string;
+}
+
+const DURATION_UNITS: [string, number][] = [
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000],
+];
+
+/**
+ * Format a duration in milliseconds in its largest whole unit, e.g. "24 hours"
+ */
+function formatDuration(milliseconds: number): string {
+  const [unit, size] = DURATION_UNITS.find(([, length]) => milliseconds % length === 0)
+    ?? ['millisecond', 1];
+  const count = milliseconds / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Explain why the server's transfer policies blocked a transfer, from the
+ * error details, with amounts in tokens of the asset sent
+ * @returns undefined when the error is not a policy violation
+ */
+export function explainPolicyViolation(
+  error: unknown,
+  assets: readonly AssetInfo[],
+  asset?: string,
+): string | undefined {
+  if (!isApiError(
+    error,
+    ErrorCode.ACCOUNT_FROZEN,
+    ErrorCode.SPENDING_LIMIT_EXCEEDED,
+    ErrorCode.RECIPIENT_NOT_ALLOWED,
+    ErrorCode.RECIPIENT_DENIED,
+  )) {
+    return undefined;
+  }
+
+  const details = (error.details ?? {}) as PolicyViolationDetails;
+  const format = (amount: string) => formatAssetAmount(amount, assets, details.asset ?? asset);
+
+  if (error.code === ErrorCode.ACCOUNT_FROZEN) {
+    if (details.role === 'recipient') {
+      return `The recipient ${details.account} is frozen by the administrator and cannot receive transfers.`;
+    }
+    if (details.role === 'feeRecipient') {
+      return `The fee recipient ${details.account} is frozen by the administrator, so transfers paying a fee are refused until the freeze is lifted.`;
+    }
+    return 'Your account is frozen by the administrator and cannot send transfers until the freeze is lifted.';
+  }
+  if (error.code === ErrorCode.SPENDING_LIMIT_EXCEEDED) {
+    return `This transfer takes ${format(details.required)} including fees, but your limit of ${format(details.limit)} per ${formatDuration(details.window)} has ${format(details.remaining)} left. Spending drops out of the limit ${formatDuration(details.window)} after it was made.`;
+  }
+  if (error.code === ErrorCode.RECIPIENT_NOT_ALLOWED) {
+    return `${details.recipient} is not on your account's list of allowed recipients: ${details.allowed.join(', ')}.`;
+  }
+  return `Transfers to ${details.recipient} are blocked by the server's policy.`;
+}
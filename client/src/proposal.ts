@@ -0,0 +1,98 @@
+import {
+  applyFee,
+  hashTransactionMessage,
+  MessageVersion,
+  TransactionMessage,
+  TransferDraft,
+} from '@ecdsa-node/protocol';
+import api from './api';
+import { Eip1193Provider, personalSignTransfer } from './provider';
+
+/**
+ * A multisig transfer passed between co-signers until enough owners have signed
+ * Always a personal_sign (version 3) message, so owners can sign with a browser
+ * wallet or a private key alike
+ */
+export interface MultisigProposal {
+  message: TransactionMessage;
+  messageHash: string;
+  signatures: string[];
+}
+
+/**
+ * Start a multisig transfer without any signatures
+ * The chain ID, the multisig account's next nonce and the asset's fee schedule
+ * are fetched from the server; the account pays the fee
+ */
+export async function createMultisigProposal(draft: TransferDraft): Promise<MultisigProposal> {
+  const [chainId, nonce, schedule] = await Promise.all([
+    api.getChainId(),
+    api.getNextNonce(draft.sender),
+    api.getFeeSchedule(draft.asset),
+  ]);
+  const message = applyFee({
+    version: MessageVersion.PERSONAL_SIGN,
+    chainId,
+    ...draft,
+    nonce,
+    timestamp: draft.timestamp ?? Date.now(),
+  }, schedule);
+
+  return { message, messageHash: hashTransactionMessage(message), signatures: [] };
+}
+
+/**
+ * Add the signature of one owner to a proposal
+ */
+export async function signMultisigProposal(
+  proposal: MultisigProposal,
+  provider: Eip1193Provider,
+  owner: string,
+): Promise<MultisigProposal> {
+  const { signature } = await personalSignTransfer(provider, owner, proposal.message);
+
+  if (proposal.signatures.includes(signature)) {
+    throw new Error('This proposal already has your signature');
+  }
+
+  return { ...proposal, signatures: [...proposal.signatures, signature] };
+}
+
+/**
+ * Serialize a proposal to hand to the next co-signer
+ */
+export function exportProposal(proposal: MultisigProposal): string {
+  return JSON.stringify(proposal, null, 2);
+}
+
+/**
+ * Parse a proposal received from a co-signer
+ * The message hash is recomputed so a proposal cannot show one transfer while
+ * collecting signatures for another
+ * @throws {Error} If the text is not a valid proposal
+ */
+export function importProposal(text: string): MultisigProposal {
+  let parsed: MultisigProposal;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Proposal is not valid JSON');
+  }
+
+  const { message, messageHash, signatures } = parsed ?? {};
+  if (
+    typeof message !== 'object'
+    || message === null
+    || message.version !== MessageVersion.PERSONAL_SIGN
+    || !Array.isArray(signatures)
+    || !signatures.every((signature) => typeof signature === 'string')
+  ) {
+    throw new Error('Proposal must contain a version 3 message and a signatures array');
+  }
+
+  if (hashTransactionMessage(message) !== messageHash) {
+    throw new Error('Proposal message hash does not match its message');
+  }
+
+  return { message, messageHash, signatures };
+}
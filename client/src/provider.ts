@@ -0,0 +1,115 @@
+import * as secp from '@noble/secp256k1';
+import {
+  buildPersonalSignPayload,
+  hashPersonalMessage,
+  MessageVersion,
+  normalizeHash,
+  privateKeyToAddress,
+  signHash,
+  TransactionMessage,
+  TransactionSigner,
+} from '@ecdsa-node/protocol';
+
+/**
+ * Minimal EIP-1193 provider, as injected by browser wallets at `window.ethereum`
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Create a provider backed by a local private key that answers the same
+ * requests as an injected wallet. Used for development and tests when no
+ * browser wallet is installed.
+ */
+export function createLocalProvider(privateKeyHex: string): Eip1193Provider {
+  const address = privateKeyToAddress(privateKeyHex);
+
+  return {
+    async request({ method, params = [] }) {
+      if (method === 'eth_requestAccounts' || method === 'eth_accounts') {
+        return [address];
+      }
+
+      if (method === 'personal_sign') {
+        const [data, account] = params as [string, string];
+        if (account.toLowerCase() !== address) {
+          throw new Error(`Unknown account ${account}`);
+        }
+
+        // Sign like a wallet: EIP-191 hash, r‖s‖v signature with v = 27 + recovery
+        const messageHash = hashPersonalMessage(secp.etc.hexToBytes(normalizeHash(data)));
+        return `0x${await signHash(messageHash, privateKeyHex, 'rsv')}`;
+      }
+
+      throw new Error(`Unsupported method ${method}`);
+    },
+  };
+}
+
+/**
+ * Get the browser-injected provider, or the local simulated one when
+ * VITE_LOCAL_PROVIDER_KEY is configured
+ */
+export function getInjectedProvider(): Eip1193Provider | undefined {
+  const localKey = import.meta.env.VITE_LOCAL_PROVIDER_KEY;
+  if (localKey) {
+    return createLocalProvider(localKey);
+  }
+  return window.ethereum;
+}
+
+/**
+ * Ask the provider for access and return the first account
+ */
+export async function requestAccount(provider: Eip1193Provider): Promise<string> {
+  const accounts = await provider.request({ method: 'eth_requestAccounts' }) as string[];
+  if (accounts.length === 0) {
+    throw new Error('No account available in the connected wallet');
+  }
+  return accounts[0];
+}
+
+/**
+ * Ask the provider to personal_sign a complete transfer message as `account`,
+ * which is the sender or, for multisig transfers, one of the owners
+ * @returns The wallet's r‖s‖v signature and the EIP-191 messageHash (hex)
+ */
+export async function personalSignTransfer(
+  provider: Eip1193Provider,
+  account: string,
+  message: TransactionMessage,
+): Promise<{ messageHash: string; signature: string }> {
+  const payloadBytes = textEncoder.encode(buildPersonalSignPayload(message));
+
+  const signature = await provider.request({
+    method: 'personal_sign',
+    params: [`0x${secp.etc.bytesToHex(payloadBytes)}`, account],
+  }) as string;
+
+  return {
+    signature,
+    messageHash: hashPersonalMessage(payloadBytes),
+  };
+}
+
+/**
+ * Create a signer that asks the provider to personal_sign every message as `account`
+ */
+export function createProviderSigner(
+  provider: Eip1193Provider,
+  account: string,
+): TransactionSigner {
+  return {
+    version: MessageVersion.PERSONAL_SIGN,
+    sign: (message) => personalSignTransfer(provider, account, message),
+  };
+}
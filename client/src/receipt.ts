@@ -0,0 +1,28 @@
+import { SignedReceipt, verifyReceipt } from '@ecdsa-node/protocol';
+import api from './api';
+
+/**
+ * Check a receipt against the receipt signer the server publishes in GET /info
+ * @throws {ValidationError} If the receipt was not signed by the server
+ */
+export async function checkReceipt(signed: SignedReceipt, messageHash?: string): Promise<void> {
+  const { receiptSigner } = await api.getInfo();
+  verifyReceipt(signed, receiptSigner, messageHash);
+}
+
+/**
+ * Fetch and check the receipt of an accepted transaction, then save it as a
+ * JSON file that proves to anyone holding the server's address that the
+ * transfer was accepted
+ */
+export async function downloadReceipt(messageHash: string): Promise<void> {
+  const signed = await api.getReceipt(messageHash);
+  await checkReceipt(signed, messageHash);
+
+  const url = URL.createObjectURL(new Blob([JSON.stringify(signed, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `receipt-${signed.receipt.sequence}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
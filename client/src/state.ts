@@ -0,0 +1,30 @@
+import {
+  AccountProof,
+  AssetBalance,
+  AssetInfo,
+  verifyAccountProof,
+} from '@ecdsa-node/protocol';
+import api from './api';
+
+/**
+ * Fetch the balance of an address with its Merkle proof, and check the proof
+ * against the state root signed by the server before the balance is shown
+ * @throws {ValidationError} If the proof does not match the signed root
+ */
+export async function fetchVerifiedBalance(address: string): Promise<AccountProof> {
+  const [proof, { receiptSigner }] = await Promise.all([api.getProof(address), api.getInfo()]);
+  return verifyAccountProof(proof, receiptSigner);
+}
+
+/**
+ * Balances of a verified account in every registered asset, default asset first
+ * The proof lists only non-zero balances in other assets, so the rest are zero
+ */
+export function getPortfolio(proof: AccountProof, assets: readonly AssetInfo[]): AssetBalance[] {
+  return assets.map(({ symbol }, index) => ({
+    asset: symbol,
+    balance: index === 0
+      ? proof.balance
+      : proof.assets?.find(({ asset }) => asset === symbol)?.balance ?? '0',
+  }));
+}
@@ -0,0 +1,58 @@
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { ValidationError } from './errors.js';
+import { ErrorCode } from './types.js';
+
+/**
+ * Check that a value is a 0x-prefixed 20-byte hex address, in any letter case
+ */
+export function isAddress(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * Write an address with its EIP-55 checksum: each hex letter is uppercased
+ * when the matching nibble of keccak256(lowercase hex) is 8 or more
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccak_256(new TextEncoder().encode(lower));
+
+  return `0x${Array.from(lower, (char, i) => {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+    return nibble >= 8 ? char.toUpperCase() : char;
+  }).join('')}`;
+}
+
+/**
+ * Check the EIP-55 checksum of an address; all-lowercase and all-uppercase
+ * addresses carry no checksum and always pass
+ */
+export function hasValidChecksum(address: string): boolean {
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return true;
+  }
+  return toChecksumAddress(address) === address;
+}
+
+/**
+ * Validate an address and return it in the lowercase form used as a ledger key
+ * A mixed-case address must carry a valid EIP-55 checksum, which catches typos
+ * @param label - What the address is, for the error message (e.g. 'sender address')
+ * @throws {ValidationError} INVALID_ADDRESS if the format or checksum is invalid
+ */
+export function normalizeAddress(address: unknown, label = 'address'): string {
+  if (!isAddress(address)) {
+    throw new ValidationError(ErrorCode.INVALID_ADDRESS, `Invalid ${label} format`);
+  }
+
+  if (!hasValidChecksum(address)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ADDRESS,
+      `Invalid ${label} checksum`,
+      { received: address, expected: toChecksumAddress(address) },
+    );
+  }
+
+  return address.toLowerCase();
+}
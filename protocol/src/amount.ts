@@ -0,0 +1,66 @@
+import { ValidationError } from './errors.js';
+import { ErrorCode } from './types.js';
+
+/**
+ * Largest amount or balance that fits the uint256 fields of signed messages
+ */
+export const MAX_UINT256 = (1n << 256n) - 1n;
+
+/**
+ * Parse an amount in base units as sent over the wire: a decimal string
+ * without sign, exponent or leading zeros. Journals written before amounts
+ * were strings hold safe integers, which are accepted too.
+ * @throws {ValidationError} INVALID_AMOUNT if it is not an integer from 0 to 2^256 - 1
+ */
+export function parseBaseUnits(value: unknown): bigint {
+  const isDecimal = typeof value === 'string' && /^(0|[1-9][0-9]*)$/.test(value);
+  const isSafeInteger = typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+  const parsed = isDecimal || isSafeInteger ? BigInt(value) : undefined;
+
+  if (parsed === undefined || parsed > MAX_UINT256) {
+    throw new ValidationError(
+      ErrorCode.INVALID_AMOUNT,
+      'Invalid amount: must be a decimal string of base units below 2^256',
+      { received: value },
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Convert a human-readable amount such as "1.5" to base units, without going
+ * through floating point
+ * @throws {ValidationError} INVALID_AMOUNT if the text is not a non-negative
+ * decimal number or has more fraction digits than `decimals`
+ */
+export function parseUnits(text: string, decimals: number): bigint {
+  const match = /^([0-9]*)(?:\.([0-9]*))?$/.exec(text.trim());
+  const [, whole = '', fraction = ''] = match ?? [];
+
+  if (!match || (whole === '' && fraction === '')) {
+    throw new ValidationError(ErrorCode.INVALID_AMOUNT, `Invalid amount: ${text}`);
+  }
+  if (fraction.replace(/0+$/, '').length > decimals) {
+    throw new ValidationError(
+      ErrorCode.INVALID_AMOUNT,
+      `Invalid amount: at most ${decimals} decimal places`,
+      { received: text, decimals },
+    );
+  }
+
+  return parseBaseUnits(
+    BigInt(`${whole}${fraction.slice(0, decimals).padEnd(decimals, '0')}` || '0').toString(),
+  );
+}
+
+/**
+ * Write an amount in base units as a human-readable decimal, without
+ * trailing zeros in the fraction (pure function)
+ */
+export function formatUnits(value: bigint | string, decimals: number): string {
+  const digits = BigInt(value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return fraction ? `${whole}.${fraction}` : whole;
+}
@@ -0,0 +1,359 @@
+import { ApiError, isApiError, NETWORK_ERROR } from './errors.js';
+import { applyFee } from './fee.js';
+import { TransactionSigner } from './sign.js';
+import {
+  AccountBalances,
+  AccountPolicy,
+  AccountProof,
+  Amount,
+  AssetSupply,
+  BalanceEvent,
+  Block,
+  ErrorCode,
+  ErrorResponse,
+  FeeSchedule,
+  MultisigAccountInfo,
+  PendingTransaction,
+  RejectedEvent,
+  SendRequestBody,
+  SendResponse,
+  SignedReceipt,
+  SignedStateCommitment,
+  StateCommitment,
+  ServerEvents,
+  ServerEventType,
+  ServerInfo,
+  TransactionPage,
+  TransactionRecord,
+  TransferDraft,
+} from './types.js';
+
+export const DEFAULT_SERVER_URL = 'http://localhost:3042';
+
+export interface ClientOptions {
+  /** Server base URL (default http://localhost:3042) */
+  baseUrl?: string;
+  /** How often `send` signs again with a fresh nonce after INVALID_NONCE (default 2) */
+  nonceRetries?: number;
+  /** fetch implementation to use instead of the global one */
+  fetch?: typeof fetch;
+  /** EventSource implementation for `subscribe`, needed where there is no global one (Node 20) */
+  eventSource?: EventSourceConstructor;
+}
+
+/**
+ * The part of the EventSource API used by `subscribe`
+ */
+export interface EventSourceLike {
+  onopen: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  addEventListener(type: string, listener: (event: { data: string }) => void): void;
+  close(): void;
+}
+
+export type EventSourceConstructor = new (url: string) => EventSourceLike;
+
+/**
+ * Callbacks for the events pushed by GET /events
+ * The stream reconnects on its own; events sent while it was down are not
+ * replayed, so `open` is the place to refetch anything shown to the user
+ */
+export interface EventHandlers {
+  balance?: (event: BalanceEvent) => void;
+  transaction?: (record: TransactionRecord) => void;
+  rejected?: (event: RejectedEvent) => void;
+  block?: (block: Block) => void;
+  state?: (commitment: StateCommitment) => void;
+  open?: () => void;
+  error?: () => void;
+}
+
+const SERVER_EVENT_TYPES: ServerEventType[] = [
+  'balance',
+  'transaction',
+  'rejected',
+  'block',
+  'state',
+];
+
+type Query = Record<string, string | number | undefined>;
+
+/**
+ * Typed client for the server's HTTP API, usable in the browser and in Node 18+
+ * Every failed request rejects with an ApiError carrying the server's ErrorCode,
+ * or NETWORK_ERROR when the server could not be reached
+ */
+export class EcdsaNodeClient {
+  readonly baseUrl: string;
+
+  private readonly nonceRetries: number;
+
+  private readonly fetch: typeof fetch;
+
+  private readonly eventSource?: EventSourceConstructor;
+
+  private infoRequest?: Promise<ServerInfo>;
+
+  constructor(options: ClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_SERVER_URL).replace(/\/+$/, '');
+    this.nonceRetries = options.nonceRetries ?? 2;
+    // Browsers require fetch to be called unbound from the window, so wrap it
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.eventSource = options.eventSource
+      ?? (globalThis as { EventSource?: EventSourceConstructor }).EventSource;
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    { query = {}, body }: { query?: Query; body?: unknown } = {},
+  ): Promise<T> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const search = params.toString();
+
+    let response: Response;
+    try {
+      response = await this.fetch(`${this.baseUrl}/${path}${search ? `?${search}` : ''}`, {
+        method,
+        ...(body !== undefined
+          ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+          : {}),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ApiError(NETWORK_ERROR, `Could not reach ${this.baseUrl}: ${reason}`);
+    }
+
+    const data: unknown = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      const { code, message, details } = (data ?? {}) as Partial<ErrorResponse>;
+      throw new ApiError(
+        (code as ErrorCode | undefined) ?? ErrorCode.INTERNAL_ERROR,
+        message ?? `${method} /${path} failed with status ${response.status}`,
+        response.status,
+        details,
+      );
+    }
+    return data as T;
+  }
+
+  /**
+   * Get the deployment details, fetched once and reused for later calls
+   * A failed request is not cached, so the next call tries again
+   */
+  getInfo(): Promise<ServerInfo> {
+    if (!this.infoRequest) {
+      this.infoRequest = this.request<ServerInfo>('GET', 'info').catch((error) => {
+        this.infoRequest = undefined;
+        throw error;
+      });
+    }
+    return this.infoRequest;
+  }
+
+  /**
+   * Get the chain ID transactions must be signed for
+   */
+  async getChainId(): Promise<number> {
+    const { chainId } = await this.getInfo();
+    return chainId;
+  }
+
+  /**
+   * List the registered assets with their total supply, default asset first
+   */
+  async getAssets(): Promise<AssetSupply[]> {
+    const { assets } = await this.request<{ assets: AssetSupply[] }>('GET', 'assets');
+    return assets;
+  }
+
+  /**
+   * Get the balance of an address in base units of an asset (default: the
+   * server's default asset)
+   */
+  async getBalance(address: string, asset?: string): Promise<bigint> {
+    const { balance } = await this.request<{ balance: Amount }>(
+      'GET',
+      `balance/${encodeURIComponent(address)}`,
+      { query: { asset } },
+    );
+    return BigInt(balance);
+  }
+
+  /**
+   * Get the balances of an address in every registered asset
+   */
+  getBalances(address: string): Promise<AccountBalances> {
+    return this.request<AccountBalances>('GET', `balances/${encodeURIComponent(address)}`);
+  }
+
+  /**
+   * Get the balance and nonce of an address with a Merkle proof against the
+   * server's signed state commitment
+   * Check it with `verifyAccountProof` against the `receiptSigner` from `getInfo`
+   */
+  getProof(address: string): Promise<AccountProof> {
+    return this.request<AccountProof>('GET', `proof/${encodeURIComponent(address)}`);
+  }
+
+  /**
+   * Get the server's signed commitment to the current state root
+   */
+  getStateCommitment(): Promise<SignedStateCommitment> {
+    return this.request<SignedStateCommitment>('GET', 'state');
+  }
+
+  /**
+   * Get the nonce of the last transaction applied for an address
+   */
+  async getNonce(address: string): Promise<number> {
+    const { nonce } = await this.request<{ nonce: number }>(
+      'GET',
+      `nonce/${encodeURIComponent(address)}`,
+    );
+    return nonce;
+  }
+
+  /**
+   * List the transactions of a sender waiting in the mempool, ordered by nonce
+   */
+  async getPendingTransactions(address: string): Promise<PendingTransaction[]> {
+    const { transactions } = await this.request<{ transactions: PendingTransaction[] }>(
+      'GET',
+      `mempool/${encodeURIComponent(address)}`,
+    );
+    return transactions;
+  }
+
+  /**
+   * Get the nonce for a new transaction: one past the applied nonce and any
+   * transactions from the same sender still waiting in the mempool
+   */
+  async getNextNonce(address: string): Promise<number> {
+    const [nonce, pending] = await Promise.all([
+      this.getNonce(address),
+      this.getPendingTransactions(address),
+    ]);
+    return Math.max(nonce, ...pending.map((transaction) => transaction.message.nonce)) + 1;
+  }
+
+  /**
+   * List accepted transactions sent or received by an address, newest first
+   */
+  getTransactions(address: string, offset?: number, limit?: number): Promise<TransactionPage> {
+    return this.request<TransactionPage>('GET', `transactions/${encodeURIComponent(address)}`, {
+      query: { offset, limit },
+    });
+  }
+
+  getTransaction(messageHash: string): Promise<TransactionRecord> {
+    return this.request<TransactionRecord>('GET', `transaction/${encodeURIComponent(messageHash)}`);
+  }
+
+  /**
+   * Get the server-signed receipt of an accepted transaction
+   * Check it with `verifyReceipt` against the `receiptSigner` from `getInfo`
+   */
+  getReceipt(messageHash: string): Promise<SignedReceipt> {
+    return this.request<SignedReceipt>('GET', `receipt/${encodeURIComponent(messageHash)}`);
+  }
+
+  /**
+   * Register a multisig account; registering the same owners and threshold again
+   * returns the existing account
+   */
+  registerMultisig(owners: string[], threshold: number): Promise<MultisigAccountInfo> {
+    return this.request<MultisigAccountInfo>('POST', 'multisig', { body: { owners, threshold } });
+  }
+
+  getMultisigAccount(address: string): Promise<MultisigAccountInfo> {
+    return this.request<MultisigAccountInfo>('GET', `multisig/${encodeURIComponent(address)}`);
+  }
+
+  /**
+   * Get the policies an address's transfers are checked against, with what is
+   * left of each spending limit
+   */
+  getPolicy(address: string): Promise<AccountPolicy> {
+    return this.request<AccountPolicy>('GET', `policy/${encodeURIComponent(address)}`);
+  }
+
+  /**
+   * Submit an already signed transaction
+   */
+  submit(request: SendRequestBody): Promise<SendResponse> {
+    return this.request<SendResponse>('POST', 'send', { body: request });
+  }
+
+  /**
+   * Listen for balance changes, accepted and rejected transactions of the
+   * given addresses, and for every new block and state root; returns a
+   * function that closes the stream
+   * @throws {Error} If no EventSource implementation is available
+   */
+  subscribe(addresses: string[], handlers: EventHandlers): () => void {
+    if (!this.eventSource) {
+      throw new Error('EventSource is not available, pass one in the client options');
+    }
+
+    const params = new URLSearchParams(addresses.map((address): [string, string] => ['address', address]));
+    const search = params.toString();
+    const source = new this.eventSource(`${this.baseUrl}/events${search ? `?${search}` : ''}`);
+
+    source.onopen = () => handlers.open?.();
+    source.onerror = () => handlers.error?.();
+    SERVER_EVENT_TYPES.forEach((type) => {
+      const handler = handlers[type] as ((data: ServerEvents[ServerEventType]) => void) | undefined;
+      if (handler) {
+        source.addEventListener(type, ({ data }) => handler(JSON.parse(data)));
+      }
+    });
+
+    return () => source.close();
+  }
+
+  /**
+   * Get the fee schedule of an asset (default: the server's default asset),
+   * or undefined when the server does not list the asset
+   */
+  async getFeeSchedule(asset?: string): Promise<FeeSchedule | undefined> {
+    const { assets } = await this.getInfo();
+    return (asset === undefined ? assets[0] : assets.find(({ symbol }) => symbol === asset))?.fee;
+  }
+
+  /**
+   * Fill in the chain ID, next nonce and fee, sign with `signer` and submit
+   * A draft without a fee pays what the asset's fee schedule asks for.
+   * When another transaction from the same sender takes the nonce first, the
+   * server answers INVALID_NONCE and the transfer is signed again with a fresh
+   * nonce, up to `nonceRetries` times
+   */
+  async send(draft: TransferDraft, signer: TransactionSigner): Promise<SendResponse> {
+    const [chainId, schedule] = await Promise.all([
+      this.getChainId(),
+      this.getFeeSchedule(draft.asset),
+    ]);
+    const timestamp = draft.timestamp ?? Date.now();
+
+    for (let attempt = 0; ; attempt += 1) {
+      const message = applyFee({
+        version: signer.version,
+        chainId,
+        ...draft,
+        nonce: await this.getNextNonce(draft.sender),
+        timestamp,
+      }, schedule);
+
+      try {
+        return await this.submit({ message, ...await signer.sign(message) });
+      } catch (error) {
+        if (!isApiError(error, ErrorCode.INVALID_NONCE) || attempt >= this.nonceRetries) {
+          throw error;
+        }
+      }
+    }
+  }
+}
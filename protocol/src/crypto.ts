@@ -0,0 +1,241 @@
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { ValidationError } from './errors.js';
+import { ErrorCode } from './types.js';
+
+// Enable sync methods for @noble/secp256k1 v3.0.0
+secp.hashes.hmacSha256 = (key, msg) => hmac(sha256, key, msg);
+secp.hashes.sha256 = sha256;
+
+const CURVE_ORDER = secp.Point.CURVE().n;
+const HALF_CURVE_ORDER = CURVE_ORDER >> 1n;
+
+/**
+ * Normalize a hex hash for comparisons and lookups: lowercase, without 0x prefix
+ */
+export function normalizeHash(hash: string): string {
+  const lower = hash.toLowerCase();
+  return lower.startsWith('0x') ? lower.slice(2) : lower;
+}
+
+/**
+ * Parse a message hash received over the wire, normalized like normalizeHash
+ * @throws {ValidationError} INVALID_HASH unless it is 32 bytes of hex, e.g.
+ * when it is a number
+ */
+export function parseMessageHash(value: unknown): string {
+  if (typeof value !== 'string' || !/^(0x)?[0-9a-fA-F]{64}$/.test(value)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_HASH,
+      'Invalid message hash: must be 32 bytes of hex',
+      { received: value },
+    );
+  }
+  return normalizeHash(value);
+}
+
+/**
+ * Byte layout of a 65-byte recoverable signature
+ * - recovered: recovery byte (0/1) followed by r and s, as produced by @noble/secp256k1
+ * - rsv: r and s followed by v (27/28 or 0/1), as returned by Ethereum wallets
+ */
+export type SignatureEncoding = 'recovered' | 'rsv';
+
+/**
+ * Hash a message the way personal_sign does (EIP-191 version 0x45):
+ * keccak256("\x19Ethereum Signed Message:\n" + byteLength + message)
+ * Text is hashed as its UTF-8 bytes
+ * @returns Keccak-256 hash as hex string
+ */
+export function hashPersonalMessage(message: string | Uint8Array): string {
+  const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const prefix = new TextEncoder().encode(`\x19Ethereum Signed Message:\n${messageBytes.length}`);
+  return secp.etc.bytesToHex(keccak_256(secp.etc.concatBytes(prefix, messageBytes)));
+}
+
+/**
+ * Decode a hex signature, accepting an optional 0x prefix
+ * @throws {ValidationError} If the value is not valid hex
+ */
+function decodeSignature(signature: string): Uint8Array {
+  try {
+    return secp.etc.hexToBytes(normalizeHash(signature));
+  } catch {
+    throw new ValidationError(ErrorCode.INVALID_SIGNATURE, 'Invalid signature encoding: expected hex');
+  }
+}
+
+/**
+ * Check that a 65-byte signature has the expected length (throws on invalid)
+ */
+function assertSignatureLength(signatureBytes: Uint8Array): void {
+  if (signatureBytes.length !== 65) {
+    throw new ValidationError(
+      ErrorCode.INVALID_SIGNATURE_LENGTH,
+      `Invalid signature length: expected 65 bytes, got ${signatureBytes.length}`,
+      { expected: 65, received: signatureBytes.length },
+    );
+  }
+}
+
+/**
+ * Check that a recovery-byte-first signature is in canonical form:
+ * recovery byte 0 or 1, 0 < r < n and 0 < s <= n/2 (low-S, as required by Ethereum)
+ * Rejecting high-S stops (r, n - s) from being accepted as a second valid
+ * signature for the same authorization.
+ * @throws {ValidationError} With a code specific to the failed check
+ */
+export function assertCanonicalSignature(signatureBytes: Uint8Array): void {
+  assertSignatureLength(signatureBytes);
+
+  const recovery = signatureBytes[0];
+  if (recovery !== 0 && recovery !== 1) {
+    throw new ValidationError(
+      ErrorCode.INVALID_RECOVERY_BYTE,
+      `Invalid recovery byte: expected 0 or 1, got ${recovery}`,
+      { received: recovery },
+    );
+  }
+
+  const r = secp.etc.bytesToNumberBE(signatureBytes.slice(1, 33));
+  const s = secp.etc.bytesToNumberBE(signatureBytes.slice(33, 65));
+
+  if (r === 0n || r >= CURVE_ORDER) {
+    throw new ValidationError(ErrorCode.INVALID_SIGNATURE_VALUES, 'Invalid signature: r is out of range');
+  }
+  if (s === 0n || s >= CURVE_ORDER) {
+    throw new ValidationError(ErrorCode.INVALID_SIGNATURE_VALUES, 'Invalid signature: s is out of range');
+  }
+  if (s > HALF_CURVE_ORDER) {
+    throw new ValidationError(
+      ErrorCode.NON_CANONICAL_SIGNATURE,
+      'Non-canonical signature: s must be in the lower half of the curve order',
+    );
+  }
+}
+
+/**
+ * Convert an Ethereum r‖s‖v signature to the recovery-byte-first layout
+ * @throws {ValidationError} If the signature length or v value is invalid
+ */
+export function rsvToRecoveredSignature(signature: string): string {
+  const signatureBytes = decodeSignature(signature);
+  assertSignatureLength(signatureBytes);
+
+  const v = signatureBytes[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) {
+    throw new ValidationError(
+      ErrorCode.INVALID_RECOVERY_BYTE,
+      `Invalid signature v value: expected 0, 1, 27 or 28, got ${v}`,
+      { received: v },
+    );
+  }
+
+  return secp.etc.bytesToHex(
+    secp.etc.concatBytes(new Uint8Array([recovery]), signatureBytes.slice(0, 64)),
+  );
+}
+
+/**
+ * Compute an identifier for a signature that is the same for every encoding of
+ * it (0x prefix, letter case, recovery-byte-first or r‖s‖v layout)
+ * @returns Keccak-256 hash of r‖s as hex string
+ */
+export function signatureId(signature: string, encoding: SignatureEncoding = 'recovered'): string {
+  const recoveredSignature = encoding === 'rsv' ? rsvToRecoveredSignature(signature) : signature;
+  const signatureBytes = decodeSignature(recoveredSignature);
+  return secp.etc.bytesToHex(keccak_256(signatureBytes.slice(1, 65)));
+}
+
+/**
+ * Recover the public key from a signature
+ * This uses the secp256k1 recovery algorithm to derive the public key from signature + message hash
+ * @param messageHash - Keccak-256 hash of the transaction message (hex string)
+ * @param signature - 65-byte signature (64 bytes + 1 recovery byte) as hex string
+ * @returns Uncompressed public key (65 bytes)
+ * @throws {ValidationError} If the signature is malformed or not canonical
+ */
+export function recoverPublicKeyFromSignature(
+  messageHash: string,
+  signature: string,
+): Uint8Array {
+  const messageHashBytes = secp.etc.hexToBytes(normalizeHash(messageHash));
+  const signatureBytes = decodeSignature(signature);
+
+  // The signature should be 65 bytes (1 recovery byte + 64 bytes r‖s) in canonical form
+  assertCanonicalSignature(signatureBytes);
+
+  // Recover the public key (returns compressed 33-byte key)
+  // Must use prehash: false since we're passing a hash, not the original message
+  const publicKeyCompressed = secp.recoverPublicKey(
+    signatureBytes,
+    messageHashBytes,
+    { prehash: false },
+  );
+
+  // Convert to uncompressed format (65 bytes) for Ethereum address derivation
+  const publicKeyPoint = secp.Point.fromBytes(publicKeyCompressed);
+  // Return as raw bytes (uncompressed format - 65 bytes)
+  return publicKeyPoint.toBytes(false);
+}
+
+/**
+ * Derive Ethereum address from public key
+ * @param publicKey - Uncompressed public key (65 bytes starting with 0x04)
+ * @returns Ethereum address with 0x prefix (42 characters total)
+ */
+export function publicKeyToAddress(publicKey: Uint8Array): string {
+  // Remove the first byte (0x04 prefix for uncompressed public key)
+  const publicKeyWithoutPrefix = publicKey.slice(1);
+
+  // Hash the public key using Keccak-256
+  const hash = keccak_256(publicKeyWithoutPrefix);
+
+  // Take the last 20 bytes as the address
+  const addressBytes = hash.slice(-20);
+
+  return `0x${secp.etc.bytesToHex(addressBytes)}`;
+}
+
+/**
+ * Normalize a private key to lowercase hex without 0x, or return null if it is
+ * not a valid secp256k1 secret key
+ */
+export function normalizePrivateKey(privateKey: string): string | null {
+  const clean = normalizeHash(privateKey.trim());
+  if (!/^[0-9a-f]{64}$/.test(clean) || !secp.utils.isValidSecretKey(secp.etc.hexToBytes(clean))) {
+    return null;
+  }
+  return clean;
+}
+
+/**
+ * Derive the Ethereum address of a private key (hex, with or without 0x prefix)
+ * @throws {Error} If the key is not a valid secp256k1 secret key
+ */
+export function privateKeyToAddress(privateKey: string): string {
+  const privateKeyBytes = secp.etc.hexToBytes(normalizeHash(privateKey));
+  return publicKeyToAddress(secp.getPublicKey(privateKeyBytes, false));
+}
+
+/**
+ * Verify a signature and return the recovered address
+ * For personal_sign, pass the EIP-191 prefixed hash from `hashPersonalMessage`
+ * together with the wallet's `rsv` signature
+ * @param messageHash - Keccak-256 hash the signature was made over
+ * @param signature - 65-byte signature (64 bytes + 1 recovery byte)
+ * @param encoding - Byte layout of the signature (defaults to recovery byte first)
+ * @returns Ethereum address recovered from the signature
+ */
+export function verifySignatureAndGetAddress(
+  messageHash: string,
+  signature: string,
+  encoding: SignatureEncoding = 'recovered',
+): string {
+  const recoveredSignature = encoding === 'rsv' ? rsvToRecoveredSignature(signature) : signature;
+  const publicKey = recoverPublicKeyFromSignature(messageHash, recoveredSignature);
+  return publicKeyToAddress(publicKey);
+}
@@ -0,0 +1,54 @@
+import { ErrorCode, ErrorResponse } from './types.js';
+
+/**
+ * Custom error class for validation errors
+ */
+export class ValidationError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+
+  toJSON(): ErrorResponse {
+    return {
+      code: this.code,
+      message: this.message,
+      details: this.details,
+    };
+  }
+}
+
+/**
+ * Code of an ApiError raised when the server could not be reached at all
+ */
+export const NETWORK_ERROR = 'NETWORK_ERROR';
+
+export type ApiErrorCode = ErrorCode | typeof NETWORK_ERROR;
+
+/**
+ * Error returned by the server (or a failed connection to it), as thrown by the SDK
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly status?: number,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+/**
+ * Check whether an error is an ApiError, optionally with one of the given codes
+ */
+export function isApiError(error: unknown, ...codes: ApiErrorCode[]): error is ApiError {
+  return error instanceof ApiError && (codes.length === 0 || codes.includes(error.code));
+}
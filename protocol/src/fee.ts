@@ -0,0 +1,33 @@
+import { buildPersonalSignPayload } from './message.js';
+import { FeeSchedule, TransactionMessage } from './types.js';
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Size of a message for its fee: the UTF-8 byte length of its personal_sign
+ * text without the Fee line, whatever version it is signed as (pure function)
+ */
+export function getMessageSize(message: TransactionMessage): number {
+  return textEncoder.encode(buildPersonalSignPayload({ ...message, fee: undefined })).length;
+}
+
+/**
+ * Compute the fee a message must carry: base + perByte × message size (pure function)
+ * Every field but `fee` counts, so compute it once the nonce and times are set
+ */
+export function computeFee(message: TransactionMessage, { base, perByte }: FeeSchedule): bigint {
+  return BigInt(base) + BigInt(perByte) * BigInt(getMessageSize(message));
+}
+
+/**
+ * Add the fee its schedule asks for to a message that has none (pure function)
+ * A message stays without a fee when the schedule charges nothing, so servers
+ * without fees get the same messages as before
+ */
+export function applyFee(message: TransactionMessage, schedule?: FeeSchedule): TransactionMessage {
+  if (message.fee !== undefined || !schedule) {
+    return message;
+  }
+  const fee = computeFee(message, schedule);
+  return fee > 0n ? { ...message, fee: String(fee) } : message;
+}
@@ -0,0 +1,49 @@
+import * as secp from '@noble/secp256k1';
+import {
+  generateMnemonic,
+  mnemonicToSeedSync,
+  validateMnemonic,
+} from 'ethereum-cryptography/bip39/index.js';
+import { wordlist } from 'ethereum-cryptography/bip39/wordlists/english.js';
+import { HDKey } from 'ethereum-cryptography/hdkey.js';
+
+/**
+ * BIP-44 path of Ethereum accounts; account i is derived at <path>/i
+ */
+export const HD_BASE_PATH = 'm/44\'/60\'/0\'/0';
+
+/**
+ * Generate a new 12-word BIP-39 mnemonic
+ */
+export function createMnemonic(): string {
+  return generateMnemonic(wordlist);
+}
+
+export function isValidMnemonic(mnemonic: string): boolean {
+  return validateMnemonic(mnemonic.trim(), wordlist);
+}
+
+/**
+ * Derive the private keys (hex) at <basePath>/0 .. <basePath>/count-1 of a
+ * mnemonic (throws on an invalid mnemonic)
+ */
+export function deriveHdPrivateKeys(
+  mnemonic: string,
+  count: number,
+  basePath = HD_BASE_PATH,
+): string[] {
+  if (!isValidMnemonic(mnemonic)) {
+    throw new Error('Invalid BIP-39 mnemonic');
+  }
+
+  const root = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic.trim()));
+
+  return Array.from({ length: count }, (_, index) => {
+    const path = `${basePath}/${index}`;
+    const { privateKey } = root.derive(path);
+    if (!privateKey) {
+      throw new Error(`Could not derive a private key at ${path}`);
+    }
+    return secp.etc.bytesToHex(privateKey);
+  });
+}
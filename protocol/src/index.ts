@@ -0,0 +1,13 @@
+export * from './types.js';
+export * from './errors.js';
+export * from './crypto.js';
+export * from './address.js';
+export * from './amount.js';
+export * from './fee.js';
+export * from './message.js';
+export * from './sign.js';
+export * from './receipt.js';
+export * from './state.js';
+export * from './keystore.js';
+export * from './hd.js';
+export * from './client.js';
@@ -0,0 +1,180 @@
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { decrypt, encrypt } from 'ethereum-cryptography/aes.js';
+import { pbkdf2 } from 'ethereum-cryptography/pbkdf2.js';
+import { scrypt } from 'ethereum-cryptography/scrypt.js';
+import { normalizePrivateKey, privateKeyToAddress } from './crypto.js';
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+export interface ScryptParams {
+  dklen: number;
+  salt: string;
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  salt: string;
+  c: number;
+  prf: 'hmac-sha256';
+}
+
+/**
+ * Ethereum v3 keystore (Web3 Secret Storage), as written by geth and most wallets
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: KeystoreKdf;
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+/**
+ * A v3 keystore as read from a file: ethers and MyEtherWallet name its
+ * `crypto` section `Crypto`
+ */
+export type KeystoreFile = Omit<KeystoreV3, 'crypto'> & {
+  crypto?: KeystoreV3['crypto'];
+  Crypto?: KeystoreV3['crypto'];
+};
+
+// Standard geth parameters; the light variant trades strength for speed in test setups
+const SCRYPT_N = 262144;
+const SCRYPT_LIGHT_N = 4096;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_LIGHT_P = 6;
+const PBKDF2_ITERATIONS = 262144;
+const DKLEN = 32;
+
+const toBytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+/**
+ * Derive the 32-byte key from the password with the keystore's KDF (throws on unsupported)
+ */
+function deriveKey(
+  password: string,
+  kdf: KeystoreKdf,
+  params: ScryptParams | Pbkdf2Params,
+): Promise<Uint8Array> {
+  const salt = secp.etc.hexToBytes(params.salt);
+
+  if (kdf === 'scrypt') {
+    const { n, r, p, dklen } = params as ScryptParams;
+    return scrypt(toBytes(password), salt, n, p, r, dklen);
+  }
+  if (kdf === 'pbkdf2') {
+    const { c, prf, dklen } = params as Pbkdf2Params;
+    if (prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported pbkdf2 prf: ${prf}`);
+    }
+    return pbkdf2(toBytes(password), salt, c, dklen, 'sha256');
+  }
+  throw new Error(`Unsupported key derivation function: ${kdf}`);
+}
+
+/**
+ * Random version 4 UUID for the keystore id, from the same randomness source
+ * as the salt and IV rather than the `crypto` global, which older runtimes lack
+ */
+function randomUuid(): string {
+  const bytes = secp.etc.randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = secp.etc.bytesToHex(bytes);
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)]
+    .join('-');
+}
+
+/**
+ * MAC over the second half of the derived key and the ciphertext (pure function)
+ */
+const computeMac = (derivedKey: Uint8Array, ciphertext: Uint8Array): string =>
+  secp.etc.bytesToHex(keccak_256(secp.etc.concatBytes(derivedKey.slice(16, 32), ciphertext)));
+
+/**
+ * Encrypt a private key into a v3 keystore
+ * pbkdf2 is the faster choice in the browser, where scrypt's memory use hurts
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  password: string,
+  kdf: KeystoreKdf = 'scrypt',
+  light = false,
+): Promise<KeystoreV3> {
+  const keyBytes = secp.etc.hexToBytes(privateKey.replace(/^0x/, ''));
+  const salt = secp.etc.bytesToHex(secp.etc.randomBytes(32));
+  const iv = secp.etc.randomBytes(16);
+
+  const kdfparams: ScryptParams | Pbkdf2Params = kdf === 'scrypt'
+    ? {
+      dklen: DKLEN,
+      salt,
+      n: light ? SCRYPT_LIGHT_N : SCRYPT_N,
+      r: SCRYPT_R,
+      p: light ? SCRYPT_LIGHT_P : SCRYPT_P,
+    }
+    : {
+      dklen: DKLEN, salt, c: PBKDF2_ITERATIONS, prf: 'hmac-sha256',
+    };
+
+  const derivedKey = await deriveKey(password, kdf, kdfparams);
+  const ciphertext = encrypt(keyBytes, derivedKey.slice(0, 16), iv, 'aes-128-ctr', false);
+
+  return {
+    version: 3,
+    id: randomUuid(),
+    address: privateKeyToAddress(privateKey).slice(2),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: secp.etc.bytesToHex(iv) },
+      ciphertext: secp.etc.bytesToHex(ciphertext),
+      kdf,
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+/**
+ * Decrypt a v3 keystore and return the private key as hex
+ * (throws on a wrong password or unsupported keystore)
+ */
+export async function decryptKeystore(keystore: KeystoreFile, password: string): Promise<string> {
+  const keystoreCrypto = keystore?.crypto ?? keystore?.Crypto;
+  if (keystore?.version !== 3 || keystoreCrypto?.cipher !== 'aes-128-ctr') {
+    throw new Error('Unsupported keystore: expected version 3 with aes-128-ctr');
+  }
+
+  const {
+    kdf, kdfparams, ciphertext, cipherparams, mac,
+  } = keystoreCrypto;
+  const derivedKey = await deriveKey(password, kdf, kdfparams);
+  const ciphertextBytes = secp.etc.hexToBytes(ciphertext);
+
+  if (computeMac(derivedKey, ciphertextBytes) !== mac.toLowerCase()) {
+    throw new Error('Wrong password: keystore MAC does not match');
+  }
+
+  const privateKey = normalizePrivateKey(secp.etc.bytesToHex(decrypt(
+    ciphertextBytes,
+    derivedKey.slice(0, 16),
+    secp.etc.hexToBytes(cipherparams.iv),
+    'aes-128-ctr',
+    false,
+  )));
+  if (!privateKey) {
+    throw new Error('Keystore does not contain a valid private key');
+  }
+  return privateKey;
+}
@@ -0,0 +1,406 @@
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import {
+  AdminAction,
+  BatchTransferMessage,
+  MessageVersion,
+  Receipt,
+  StateCommitment,
+  TransactionMessage,
+  TransferEntry,
+  TransferMessage,
+} from './types.js';
+import { hashPersonalMessage, normalizeHash } from './crypto.js';
+
+export interface Eip712Domain {
+  name: string;
+  version: string;
+  chainId: number;
+}
+
+export const EIP712_DOMAIN_NAME = 'ECDSA Node';
+export const EIP712_DOMAIN_VERSION = '1';
+
+/**
+ * Build the EIP-712 domain for a chain ID (pure function)
+ */
+export function createDomain(chainId: number): Eip712Domain {
+  return { name: EIP712_DOMAIN_NAME, version: EIP712_DOMAIN_VERSION, chainId };
+}
+
+const EIP712_DOMAIN_TYPE = 'EIP712Domain(string name,string version,uint256 chainId)';
+const TIMING_FIELDS = ['uint256 nonce', 'uint256 timestamp', 'uint256 validUntil'];
+const TRANSFER_ENTRY_TYPE = 'TransferEntry(address recipient,uint256 amount)';
+const ADMIN_ACTION_TYPE = 'AdminAction(string action,address account,uint256 amount,uint256 timestamp)';
+const ASSET_ADMIN_ACTION_TYPE = 'AdminAction(string action,address account,string asset,uint256 amount,uint256 timestamp)';
+const RECEIPT_BALANCE_TYPE = 'ReceiptBalance(address account,uint256 balance)';
+const RECEIPT_TYPE = `Receipt(bytes32 messageHash,uint256 sequence,string asset,uint256 fee,ReceiptBalance[] balances,uint256 timestamp)${RECEIPT_BALANCE_TYPE}`;
+const STATE_COMMITMENT_TYPE = 'StateCommitment(bytes32 root,uint256 version,uint256 timestamp)';
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+
+const textEncoder = new TextEncoder();
+
+const keccakText = (value: string): Uint8Array => keccak_256(textEncoder.encode(value));
+
+// Structs name their asset and fee only when they are set, so messages without
+// them hash as they always have
+const optionalField = (field: string, value: unknown): string[] =>
+  (value !== undefined ? [field] : []);
+
+const encodeAsset = (asset: string | undefined): Uint8Array[] =>
+  (asset !== undefined ? [keccakText(asset)] : []);
+
+const encodeFee = (fee: string | undefined): Uint8Array[] =>
+  (fee !== undefined ? [encodeUint256(fee)] : []);
+
+const transferType = ({ asset, fee }: TransferMessage): string => `Transfer(${[
+  'address sender',
+  'address recipient',
+  ...optionalField('string asset', asset),
+  'uint256 amount',
+  ...optionalField('uint256 fee', fee),
+  ...TIMING_FIELDS,
+].join(',')})`;
+
+const batchTransferType = ({ asset, fee }: BatchTransferMessage): string => `BatchTransfer(${[
+  'address sender',
+  ...optionalField('string asset', asset),
+  'TransferEntry[] transfers',
+  ...optionalField('uint256 fee', fee),
+  ...TIMING_FIELDS,
+].join(',')})${TRANSFER_ENTRY_TYPE}`;
+
+/**
+ * ABI-encode an unsigned integer as a 32-byte word (pure function)
+ */
+export function encodeUint256(value: number | bigint | string): Uint8Array {
+  return secp.etc.hexToBytes(BigInt(value).toString(16).padStart(64, '0'));
+}
+
+/**
+ * ABI-encode an address as a left-padded 32-byte word (pure function)
+ */
+export function encodeAddress(address: string): Uint8Array {
+  return secp.etc.hexToBytes(address.slice(2).toLowerCase().padStart(64, '0'));
+}
+
+/**
+ * Compute the EIP-712 domain separator (pure function)
+ */
+export function hashDomain(domain: Eip712Domain): Uint8Array {
+  return keccak_256(secp.etc.concatBytes(
+    keccakText(EIP712_DOMAIN_TYPE),
+    keccakText(domain.name),
+    keccakText(domain.version),
+    encodeUint256(domain.chainId),
+  ));
+}
+
+/**
+ * List the recipient and amount of every leg of a message (pure function)
+ * A single transfer has one leg
+ */
+export function getTransfers(message: TransactionMessage): TransferEntry[] {
+  if (message.transfers !== undefined) {
+    return message.transfers;
+  }
+  return [{ recipient: message.recipient, amount: message.amount }];
+}
+
+/**
+ * List the recipients named by more than one leg, compared case-insensitively
+ * and returned in lowercase (pure function)
+ */
+export function getDuplicateRecipients(transfers: readonly TransferEntry[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  transfers.forEach(({ recipient }) => {
+    const key = recipient.toLowerCase();
+    (seen.has(key) ? duplicates : seen).add(key);
+  });
+  return [...duplicates];
+}
+
+/**
+ * Compute the EIP-712 struct hash of a Transfer (pure function)
+ * A missing validUntil is encoded as 0, and a message with an asset or a fee
+ * uses the struct variant with a `string asset` or `uint256 fee` field
+ */
+export function hashTransferStruct(message: TransferMessage): Uint8Array {
+  return keccak_256(secp.etc.concatBytes(
+    keccakText(transferType(message)),
+    encodeAddress(message.sender),
+    encodeAddress(message.recipient),
+    ...encodeAsset(message.asset),
+    encodeUint256(message.amount),
+    ...encodeFee(message.fee),
+    encodeUint256(message.nonce),
+    encodeUint256(message.timestamp),
+    encodeUint256(message.validUntil ?? 0),
+  ));
+}
+
+/**
+ * Compute the EIP-712 struct hash of a BatchTransfer (pure function)
+ * The transfers array is encoded as the hash of its concatenated entry struct hashes
+ */
+export function hashBatchTransferStruct(message: BatchTransferMessage): Uint8Array {
+  const entryHashes = message.transfers.map((entry) => keccak_256(secp.etc.concatBytes(
+    keccakText(TRANSFER_ENTRY_TYPE),
+    encodeAddress(entry.recipient),
+    encodeUint256(entry.amount),
+  )));
+
+  return keccak_256(secp.etc.concatBytes(
+    keccakText(batchTransferType(message)),
+    encodeAddress(message.sender),
+    ...encodeAsset(message.asset),
+    keccak_256(secp.etc.concatBytes(...entryHashes)),
+    ...encodeFee(message.fee),
+    encodeUint256(message.nonce),
+    encodeUint256(message.timestamp),
+    encodeUint256(message.validUntil ?? 0),
+  ));
+}
+
+/**
+ * Compute the EIP-712 signing digest: keccak256(0x1901 ‖ domainSeparator ‖ structHash)
+ */
+export function hashTypedTransfer(
+  message: TransactionMessage,
+  domain: Eip712Domain = createDomain(message.chainId),
+): string {
+  const digest = keccak_256(secp.etc.concatBytes(
+    new Uint8Array([0x19, 0x01]),
+    hashDomain(domain),
+    message.transfers !== undefined
+      ? hashBatchTransferStruct(message)
+      : hashTransferStruct(message),
+  ));
+  return secp.etc.bytesToHex(digest);
+}
+
+/**
+ * Build the eth_signTypedData_v4 payload for a Transfer or BatchTransfer, so the
+ * same message can be signed by a standard wallet
+ */
+export function buildTypedData(message: TransactionMessage) {
+  const domainType = [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+  ];
+  const timing = {
+    nonce: message.nonce,
+    timestamp: message.timestamp,
+    validUntil: message.validUntil ?? 0,
+  };
+  const timingTypes = [
+    { name: 'nonce', type: 'uint256' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'validUntil', type: 'uint256' },
+  ];
+  const asset = message.asset !== undefined ? { asset: message.asset } : {};
+  const assetTypes = message.asset !== undefined ? [{ name: 'asset', type: 'string' }] : [];
+  const fee = message.fee !== undefined ? { fee: message.fee } : {};
+  const feeTypes = message.fee !== undefined ? [{ name: 'fee', type: 'uint256' }] : [];
+
+  if (message.transfers !== undefined) {
+    return {
+      domain: createDomain(message.chainId),
+      types: {
+        EIP712Domain: domainType,
+        BatchTransfer: [
+          { name: 'sender', type: 'address' },
+          ...assetTypes,
+          { name: 'transfers', type: 'TransferEntry[]' },
+          ...feeTypes,
+          ...timingTypes,
+        ],
+        TransferEntry: [
+          { name: 'recipient', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+        ],
+      },
+      primaryType: 'BatchTransfer',
+      message: {
+        sender: message.sender,
+        ...asset,
+        transfers: message.transfers,
+        ...fee,
+        ...timing,
+      },
+    };
+  }
+
+  return {
+    domain: createDomain(message.chainId),
+    types: {
+      EIP712Domain: domainType,
+      Transfer: [
+        { name: 'sender', type: 'address' },
+        { name: 'recipient', type: 'address' },
+        ...assetTypes,
+        { name: 'amount', type: 'uint256' },
+        ...feeTypes,
+        ...timingTypes,
+      ],
+    },
+    primaryType: 'Transfer',
+    message: {
+      sender: message.sender,
+      recipient: message.recipient,
+      ...asset,
+      amount: message.amount,
+      ...fee,
+      ...timing,
+    },
+  };
+}
+
+/**
+ * Compute the EIP-712 digest of an admin action (pure function)
+ * A missing account or amount (reset, freeze, unfreeze) is encoded as the
+ * zero address or 0.
+ * An action with an asset uses the struct variant with a `string asset` field.
+ */
+export function hashAdminAction(
+  action: AdminAction,
+  domain: Eip712Domain = createDomain(action.chainId),
+): string {
+  const structHash = keccak_256(secp.etc.concatBytes(
+    keccakText(action.asset !== undefined ? ASSET_ADMIN_ACTION_TYPE : ADMIN_ACTION_TYPE),
+    keccakText(action.type),
+    encodeAddress(action.account ?? ZERO_ADDRESS),
+    ...encodeAsset(action.asset),
+    encodeUint256(action.amount ?? 0),
+    encodeUint256(action.timestamp),
+  ));
+
+  const digest = keccak_256(secp.etc.concatBytes(
+    new Uint8Array([0x19, 0x01]),
+    hashDomain(domain),
+    structHash,
+  ));
+  return secp.etc.bytesToHex(digest);
+}
+
+/**
+ * Compute the EIP-712 digest of a receipt (pure function)
+ * The balances array is encoded as the hash of its concatenated entry struct hashes
+ */
+export function hashReceipt(
+  receipt: Receipt,
+  domain: Eip712Domain = createDomain(receipt.chainId),
+): string {
+  const balanceHashes = receipt.balances.map((entry) => keccak_256(secp.etc.concatBytes(
+    keccakText(RECEIPT_BALANCE_TYPE),
+    encodeAddress(entry.account),
+    encodeUint256(entry.balance),
+  )));
+
+  const structHash = keccak_256(secp.etc.concatBytes(
+    keccakText(RECEIPT_TYPE),
+    secp.etc.hexToBytes(normalizeHash(receipt.messageHash)),
+    encodeUint256(receipt.sequence),
+    keccakText(receipt.asset),
+    encodeUint256(receipt.fee),
+    keccak_256(secp.etc.concatBytes(...balanceHashes)),
+    encodeUint256(receipt.timestamp),
+  ));
+
+  const digest = keccak_256(secp.etc.concatBytes(
+    new Uint8Array([0x19, 0x01]),
+    hashDomain(domain),
+    structHash,
+  ));
+  return secp.etc.bytesToHex(digest);
+}
+
+/**
+ * Compute the EIP-712 digest of a state commitment (pure function)
+ */
+export function hashStateCommitment(
+  commitment: StateCommitment,
+  domain: Eip712Domain = createDomain(commitment.chainId),
+): string {
+  const structHash = keccak_256(secp.etc.concatBytes(
+    keccakText(STATE_COMMITMENT_TYPE),
+    secp.etc.hexToBytes(normalizeHash(commitment.root)),
+    encodeUint256(commitment.version),
+    encodeUint256(commitment.timestamp),
+  ));
+
+  const digest = keccak_256(secp.etc.concatBytes(
+    new Uint8Array([0x19, 0x01]),
+    hashDomain(domain),
+    structHash,
+  ));
+  return secp.etc.bytesToHex(digest);
+}
+
+/**
+ * Build the human-readable text a wallet signs with personal_sign (pure function)
+ * A batch lists every leg and the total instead of a single recipient and amount,
+ * an `Asset` line names the asset when the message has one, and a `Fee` line
+ * follows the amounts when it carries a fee
+ */
+export function buildPersonalSignPayload(
+  message: TransactionMessage,
+  domain: Eip712Domain = createDomain(message.chainId),
+): string {
+  const assetLines = message.asset !== undefined ? [`Asset: ${message.asset}`] : [];
+  const feeLines = message.fee !== undefined ? [`Fee: ${message.fee}`] : [];
+  const transferLines = message.transfers !== undefined
+    ? [
+      `${domain.name} batch transfer`,
+      `Sender: ${message.sender}`,
+      ...assetLines,
+      ...message.transfers.map((entry, index) =>
+        `Transfer ${index + 1}: ${entry.amount} to ${entry.recipient}`),
+      `Total: ${message.transfers.reduce((total, entry) => total + BigInt(entry.amount), 0n)}`,
+      ...feeLines,
+    ]
+    : [
+      `${domain.name} transfer`,
+      `Sender: ${message.sender}`,
+      `Recipient: ${message.recipient}`,
+      ...assetLines,
+      `Amount: ${message.amount}`,
+      ...feeLines,
+    ];
+
+  return [
+    ...transferLines,
+    `Nonce: ${message.nonce}`,
+    `Issued at: ${new Date(message.timestamp).toISOString()}`,
+    ...(message.validUntil !== undefined
+      ? [`Valid until: ${new Date(message.validUntil).toISOString()}`]
+      : []),
+    `Chain ID: ${domain.chainId}`,
+  ].join('\n');
+}
+
+/**
+ * Compute the deprecated hash of the JSON-serialized message
+ * Depends on key order, kept only for clients that have not moved to EIP-712
+ */
+export function hashLegacyMessage(message: TransactionMessage): string {
+  return secp.etc.bytesToHex(keccak_256(textEncoder.encode(JSON.stringify(message))));
+}
+
+/**
+ * Compute the hash a transaction message must be signed over, according to its version
+ * Messages without a version are treated as legacy JSON
+ * The message's chainId is part of every digest, so it must be checked against
+ * the server's chain ID separately
+ */
+export function hashTransactionMessage(message: TransactionMessage): string {
+  if (message.version === MessageVersion.EIP712) {
+    return hashTypedTransfer(message);
+  }
+  if (message.version === MessageVersion.PERSONAL_SIGN) {
+    return hashPersonalMessage(buildPersonalSignPayload(message));
+  }
+  return hashLegacyMessage(message);
+}
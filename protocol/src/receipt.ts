@@ -0,0 +1,93 @@
+import { toChecksumAddress } from './address.js';
+import { normalizeHash, verifySignatureAndGetAddress } from './crypto.js';
+import { ValidationError } from './errors.js';
+import { getTransfers, hashReceipt } from './message.js';
+import { signHash } from './sign.js';
+import {
+  ErrorCode,
+  Receipt,
+  SignedReceipt,
+  TransactionRecord,
+} from './types.js';
+
+/**
+ * Build the receipt of an accepted transaction from its history record (pure function)
+ * The sender's balance comes first, then each distinct recipient's in transfer order,
+ * then the fee recipient's unless it is already listed, all with checksummed
+ * addresses. A message without an asset moved `defaultAsset`.
+ */
+export function createReceipt(
+  record: TransactionRecord,
+  chainId: number,
+  defaultAsset: string,
+): Receipt {
+  const { message, balances } = record;
+  // Keyed by lowercase address, so case variants of one recipient are listed once
+  const recipients = [...new Map(getTransfers(message)
+    .map(({ recipient }) => [recipient.toLowerCase(), recipient])).values()];
+  const listed = new Set([message.sender, ...recipients].map((account) => account.toLowerCase()));
+  const { feeRecipient } = balances;
+
+  return {
+    chainId,
+    messageHash: normalizeHash(record.messageHash),
+    sequence: record.id,
+    asset: message.asset ?? defaultAsset,
+    fee: String(message.fee ?? 0),
+    balances: [
+      // Records written before amounts were strings hold numbers
+      { account: toChecksumAddress(message.sender), balance: String(balances.sender) },
+      ...recipients.map((account) => ({
+        account: toChecksumAddress(account),
+        balance: String(balances.recipients?.[account] ?? balances.recipient ?? 0),
+      })),
+      ...(feeRecipient && !listed.has(feeRecipient.address.toLowerCase())
+        ? [{
+          account: toChecksumAddress(feeRecipient.address),
+          balance: String(feeRecipient.balance),
+        }]
+        : []),
+    ],
+    timestamp: record.timestamp,
+  };
+}
+
+/**
+ * Sign a receipt over its EIP-712 digest
+ */
+export async function signReceipt(receipt: Receipt, privateKey: string): Promise<SignedReceipt> {
+  return { receipt, signature: await signHash(hashReceipt(receipt), privateKey) };
+}
+
+/**
+ * Check offline that a receipt was signed by the server, whose receipt signer
+ * address is listed by GET /info, and optionally that it is for a given transaction
+ * @returns The verified receipt
+ * @throws {ValidationError} INVALID_SIGNATURE (or a more specific signature code)
+ * if another key signed it, INVALID_HASH if it is for another transaction
+ */
+export function verifyReceipt(
+  { receipt, signature }: SignedReceipt,
+  signer: string,
+  messageHash?: string,
+): Receipt {
+  const recovered = verifySignatureAndGetAddress(hashReceipt(receipt), signature);
+  if (recovered !== signer.toLowerCase()) {
+    throw new ValidationError(
+      ErrorCode.INVALID_SIGNATURE,
+      'Receipt is not signed by the server',
+      { expected: signer.toLowerCase(), recovered },
+    );
+  }
+
+  const expected = messageHash !== undefined ? normalizeHash(messageHash) : undefined;
+  if (expected !== undefined && expected !== normalizeHash(receipt.messageHash)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_HASH,
+      'Receipt is for another transaction',
+      { expected, received: receipt.messageHash },
+    );
+  }
+
+  return receipt;
+}
@@ -0,0 +1,86 @@
+import * as secp from '@noble/secp256k1';
+import { normalizeHash, SignatureEncoding } from './crypto.js';
+import { hashAdminAction, hashTransactionMessage } from './message.js';
+import {
+  AdminAction, MessageVersion, SendRequestBody, TransactionMessage,
+} from './types.js';
+
+/**
+ * Something that can sign transaction messages of one version: a private key,
+ * or a browser wallet in the client
+ */
+export interface TransactionSigner {
+  readonly version: MessageVersion;
+  sign(message: TransactionMessage): Promise<{ messageHash: string; signature: string }>;
+}
+
+/**
+ * Sign a 32-byte hash with a private key
+ * The rsv layout uses v = 27 + recovery, like the signatures Ethereum wallets return
+ * @param messageHash - Hash to sign (hex, with or without 0x prefix)
+ * @param privateKey - Private key (hex, with or without 0x prefix)
+ * @param encoding - Byte layout of the returned signature (defaults to recovery byte first)
+ * @returns 65-byte low-S signature as hex string without 0x prefix
+ */
+export async function signHash(
+  messageHash: string,
+  privateKey: string,
+  encoding: SignatureEncoding = 'recovered',
+): Promise<string> {
+  const signature = await secp.signAsync(
+    secp.etc.hexToBytes(normalizeHash(messageHash)),
+    secp.etc.hexToBytes(normalizeHash(privateKey)),
+    { format: 'recovered', prehash: false },
+  );
+
+  if (encoding === 'rsv') {
+    return secp.etc.bytesToHex(
+      secp.etc.concatBytes(signature.slice(1), new Uint8Array([27 + signature[0]])),
+    );
+  }
+  return secp.etc.bytesToHex(signature);
+}
+
+/**
+ * Hash and sign a transaction message according to its version
+ * Personal-sign messages get an r‖s‖v signature, as a wallet would produce
+ * @returns The request body for POST /send
+ */
+export async function signTransactionMessage(
+  message: TransactionMessage,
+  privateKey: string,
+): Promise<Required<Omit<SendRequestBody, 'signatures'>>> {
+  const messageHash = hashTransactionMessage(message);
+  const encoding = message.version === MessageVersion.PERSONAL_SIGN ? 'rsv' : 'recovered';
+
+  return {
+    message,
+    messageHash,
+    signature: await signHash(messageHash, privateKey, encoding),
+  };
+}
+
+/**
+ * Sign an admin action over its EIP-712 digest
+ * @returns 65-byte signature (recovery byte first) as hex string
+ */
+export function signAdminAction(action: AdminAction, privateKey: string): Promise<string> {
+  return signHash(hashAdminAction(action), privateKey);
+}
+
+/**
+ * Create a signer for a private key (hex, with or without 0x prefix)
+ * Signs EIP-712 messages unless another version is given
+ */
+export function createKeySigner(
+  privateKey: string,
+  version: MessageVersion = MessageVersion.EIP712,
+): TransactionSigner {
+  return {
+    version,
+    async sign(message: TransactionMessage) {
+      const { messageHash, signature } = await signTransactionMessage(message, privateKey);
+      return { messageHash, signature };
+    },
+  };
+}
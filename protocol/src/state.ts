@@ -0,0 +1,181 @@
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { normalizeHash, verifySignatureAndGetAddress } from './crypto.js';
+import { ValidationError } from './errors.js';
+import { encodeAddress, encodeUint256, hashStateCommitment } from './message.js';
+import { signHash } from './sign.js';
+import {
+  AccountProof,
+  AssetBalance,
+  ErrorCode,
+  SignedStateCommitment,
+  StateCommitment,
+  StateProof,
+} from './types.js';
+
+/**
+ * Levels of the sparse Merkle tree: one per address bit, so every possible
+ * address has its own leaf and absent accounts can be proven too
+ */
+export const STATE_TREE_DEPTH = 160;
+
+// Leaves and inner nodes are hashed with different prefixes, so neither can pass for the other
+const LEAF_PREFIX = new Uint8Array([0]);
+const NODE_PREFIX = new Uint8Array([1]);
+
+/**
+ * Hash an account's balances in assets other than the default (pure function)
+ * keccak256 over keccak256(symbol) ‖ uint256 balance for every non-zero
+ * balance, sorted by symbol; undefined when there are none
+ */
+export function hashAssetBalances(assets: readonly AssetBalance[]): Uint8Array | undefined {
+  const held = assets
+    .filter(({ balance }) => BigInt(balance) !== 0n)
+    .sort((first, second) => (first.asset < second.asset ? -1 : 1));
+  if (held.length === 0) {
+    return undefined;
+  }
+  return keccak_256(secp.etc.concatBytes(...held.flatMap(({ asset, balance }) => [
+    keccak_256(new TextEncoder().encode(asset)),
+    encodeUint256(balance),
+  ])));
+}
+
+/**
+ * Hash an account leaf: keccak256(0x00 ‖ address ‖ uint256 balance ‖ uint256 nonce),
+ * followed by the hash of its other asset balances when it holds any
+ * An account with a zero balance and nonce and no other assets is the empty
+ * leaf (32 zero bytes), the same as an address the server has never seen
+ * (pure function)
+ */
+export function hashStateLeaf(
+  address: string,
+  balance: bigint | string,
+  nonce: number,
+  assets: readonly AssetBalance[] = [],
+): Uint8Array {
+  const assetsHash = hashAssetBalances(assets);
+  if (BigInt(balance) === 0n && nonce === 0 && !assetsHash) {
+    return new Uint8Array(32);
+  }
+  return keccak_256(secp.etc.concatBytes(
+    LEAF_PREFIX,
+    encodeAddress(address),
+    encodeUint256(balance),
+    encodeUint256(nonce),
+    ...(assetsHash ? [assetsHash] : []),
+  ));
+}
+
+/**
+ * Hash two child nodes: keccak256(0x01 ‖ left ‖ right) (pure function)
+ */
+export function hashStateNode(left: Uint8Array, right: Uint8Array): Uint8Array {
+  return keccak_256(secp.etc.concatBytes(NODE_PREFIX, left, right));
+}
+
+/**
+ * Root hash of an empty subtree at each level, from the empty leaf (level 0)
+ * up to the root of an empty tree (level STATE_TREE_DEPTH)
+ */
+export const EMPTY_STATE_HASHES: readonly Uint8Array[] = Array.from(
+  { length: STATE_TREE_DEPTH },
+).reduce<Uint8Array[]>(
+  (hashes) => [...hashes, hashStateNode(hashes[hashes.length - 1], hashes[hashes.length - 1])],
+  [new Uint8Array(32)],
+);
+
+/**
+ * Position of an address's leaf; bit i picks the right child at tree level i
+ * (counted from the leaves), so the most significant bit branches at the root
+ */
+export function getStateKey(address: string): bigint {
+  return BigInt(`0x${normalizeHash(address)}`);
+}
+
+/**
+ * Recompute the state root from an account and its proof (throws on a malformed proof)
+ */
+export function computeStateRoot(
+  address: string,
+  balance: bigint | string,
+  nonce: number,
+  { bitmap, siblings }: StateProof,
+  assets: readonly AssetBalance[] = [],
+): string {
+  const key = getStateKey(address);
+  const mask = BigInt(`0x${normalizeHash(bitmap) || '0'}`);
+  const remaining = [...siblings];
+
+  const root = EMPTY_STATE_HASHES.slice(0, STATE_TREE_DEPTH).reduce((node, empty, level) => {
+    const sibling = (mask >> BigInt(level)) & 1n
+      ? secp.etc.hexToBytes(normalizeHash(remaining.shift() ?? ''))
+      : empty;
+    return (key >> BigInt(level)) & 1n
+      ? hashStateNode(sibling, node)
+      : hashStateNode(node, sibling);
+  }, hashStateLeaf(address, balance, nonce, assets));
+
+  if (remaining.length > 0) {
+    throw new ValidationError(ErrorCode.INVALID_PROOF, 'Proof lists more siblings than its bitmap');
+  }
+  return secp.etc.bytesToHex(root);
+}
+
+/**
+ * Sign a state commitment over its EIP-712 digest
+ */
+export async function signStateCommitment(
+  commitment: StateCommitment,
+  privateKey: string,
+): Promise<SignedStateCommitment> {
+  return {
+    commitment,
+    signature: await signHash(hashStateCommitment(commitment), privateKey),
+  };
+}
+
+/**
+ * Check an account proof offline: the commitment must be signed by the server
+ * (the `receiptSigner` listed by GET /info) and the account must hash up to
+ * its root
+ * @returns The verified account proof
+ * @throws {ValidationError} INVALID_SIGNATURE (or a more specific signature code)
+ * if another key signed the commitment, INVALID_PROOF if the account is not part of it
+ */
+export function verifyAccountProof(accountProof: AccountProof, signer: string): AccountProof {
+  const {
+    address,
+    balance,
+    assets = [],
+    nonce,
+    proof,
+    commitment: { commitment, signature },
+  } = accountProof;
+
+  const recovered = verifySignatureAndGetAddress(hashStateCommitment(commitment), signature);
+  if (recovered !== signer.toLowerCase()) {
+    throw new ValidationError(
+      ErrorCode.INVALID_SIGNATURE,
+      'State commitment is not signed by the server',
+      { expected: signer.toLowerCase(), recovered },
+    );
+  }
+
+  let root: string;
+  try {
+    root = computeStateRoot(address, balance, nonce, proof, assets);
+  } catch (error) {
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError(ErrorCode.INVALID_PROOF, 'Proof is malformed');
+  }
+  if (root !== normalizeHash(commitment.root)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_PROOF,
+      'Account is not part of the committed state',
+      { expected: normalizeHash(commitment.root), computed: root },
+    );
+  }
+
+  return accountProof;
+}
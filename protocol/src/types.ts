@@ -0,0 +1,434 @@
+/**
+ * Signing scheme of a transaction message
+ * LEGACY_JSON hashes JSON.stringify(message) and is deprecated
+ * PERSONAL_SIGN is EIP-191 over a text payload, with a wallet r‖s‖v signature
+ */
+export enum MessageVersion {
+  LEGACY_JSON = 1,
+  EIP712 = 2,
+  PERSONAL_SIGN = 3,
+}
+
+/**
+ * Token amount in base units, written as a decimal string so it keeps full
+ * precision in JSON (e.g. "1500000000000000000" for 1.5 tokens with 18 decimals)
+ */
+export type Amount = string;
+
+/**
+ * Fee a transfer must pay: `base` plus `perByte` for every byte of the message,
+ * in base units of the asset it moves (see computeFee)
+ */
+export interface FeeSchedule {
+  base: Amount;
+  perByte: Amount;
+}
+
+/**
+ * A token the server keeps balances of, as listed by GET /info
+ * `decimals` is the number of fraction digits of one token: amounts of the
+ * asset are in base units of 10^-decimals tokens
+ */
+export interface AssetInfo {
+  symbol: string;
+  decimals: number;
+  maxTransactionAmount: Amount;
+  fee: FeeSchedule;
+}
+
+/**
+ * A registered asset with its current total supply, as listed by GET /assets
+ */
+export interface AssetSupply extends AssetInfo {
+  totalSupply: Amount;
+}
+
+/**
+ * The balance of an account in one asset
+ */
+export interface AssetBalance {
+  asset: string;
+  balance: Amount;
+}
+
+/**
+ * Response of GET /balances/:address: the account's balance in every
+ * registered asset, default asset first
+ */
+export interface AccountBalances {
+  address: string;
+  balances: AssetBalance[];
+}
+
+export interface TransferEntry {
+  recipient: string;
+  amount: Amount;
+}
+
+/**
+ * `asset` is the symbol of the asset moved by every leg; messages without one
+ * move the server's default asset, the first one listed by GET /info
+ * `fee` is paid by the sender in that asset on top of the amounts, and must
+ * be at least what the asset's fee schedule asks for
+ */
+interface BaseTransactionMessage {
+  version?: MessageVersion;
+  chainId: number;
+  sender: string;
+  asset?: string;
+  fee?: Amount;
+  nonce: number;
+  timestamp: number;
+  validUntil?: number;
+}
+
+export interface TransferMessage extends BaseTransactionMessage {
+  recipient: string;
+  amount: Amount;
+  transfers?: undefined;
+}
+
+/**
+ * Several transfers authorized by one signature under one nonce, applied all-or-nothing
+ */
+export interface BatchTransferMessage extends BaseTransactionMessage {
+  transfers: TransferEntry[];
+  recipient?: undefined;
+  amount?: undefined;
+}
+
+export type TransactionMessage = TransferMessage | BatchTransferMessage;
+
+/**
+ * A signed transfer; a regular account sends one `signature`, a multisig
+ * account sends its owners' `signatures` instead
+ */
+export interface SendRequestBody {
+  message: TransactionMessage;
+  signature?: string;
+  signatures?: string[];
+  messageHash: string;
+}
+
+type Unsigned<T> = Omit<T, 'version' | 'chainId' | 'nonce' | 'timestamp'> & { timestamp?: number };
+
+/**
+ * Transfer fields chosen by the sender; version, chainId and nonce are filled
+ * in when signing, and timestamp defaults to the current time
+ */
+export type TransferDraft = Unsigned<TransferMessage> | Unsigned<BatchTransferMessage>;
+
+/**
+ * A transfer waiting in the mempool for the nonces before it
+ */
+export interface PendingTransaction extends SendRequestBody {
+  receivedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * An accepted transfer with the balances it left behind
+ * `feeRecipient` is recorded when a fee was paid
+ */
+export interface TransactionRecord {
+  id: number;
+  message: TransactionMessage;
+  signature?: string;
+  signatures?: string[];
+  messageHash: string;
+  balances: {
+    sender: Amount;
+    recipient?: Amount;
+    recipients?: { [address: string]: Amount };
+    feeRecipient?: { address: string; balance: Amount };
+  };
+  timestamp: number;
+}
+
+/**
+ * A balance after a transaction was applied
+ */
+export interface ReceiptBalance {
+  account: string;
+  balance: Amount;
+}
+
+/**
+ * What the server attests to when it accepts a transaction: its message hash,
+ * its sequence number in the server's history, the asset it moved, the fee
+ * paid, the balances in that asset it left behind (sender first, then each
+ * recipient, then the fee recipient) and when it was applied
+ */
+export interface Receipt {
+  chainId: number;
+  messageHash: string;
+  sequence: number;
+  asset: string;
+  fee: Amount;
+  balances: ReceiptBalance[];
+  timestamp: number;
+}
+
+/**
+ * A receipt with the server's signature over its EIP-712 digest
+ */
+export interface SignedReceipt {
+  receipt: Receipt;
+  signature: string;
+}
+
+/**
+ * The server's commitment to the whole ledger: the root of the sparse Merkle
+ * tree over every account's balance and nonce, after `version` state changes
+ * (accepted transactions plus supply changes)
+ */
+export interface StateCommitment {
+  chainId: number;
+  root: string;
+  version: number;
+  timestamp: number;
+}
+
+/**
+ * A state commitment with the server's signature over its EIP-712 digest
+ */
+export interface SignedStateCommitment {
+  commitment: StateCommitment;
+  signature: string;
+}
+
+/**
+ * Merkle path from an account's leaf to the state root
+ * `bitmap` (hex, bit i for tree level i counted from the leaves) marks the
+ * levels whose sibling is not an empty subtree; only those siblings are listed,
+ * leaf level first
+ */
+export interface StateProof {
+  bitmap: string;
+  siblings: string[];
+}
+
+/**
+ * Response of GET /proof/:address: an account with the proof that it is part
+ * of the signed state commitment
+ * `balance` is in the default asset; `assets` lists the account's non-zero
+ * balances in other assets, which its leaf commits to as well
+ */
+export interface AccountProof {
+  address: string;
+  balance: Amount;
+  assets?: AssetBalance[];
+  nonce: number;
+  proof: StateProof;
+  commitment: SignedStateCommitment;
+}
+
+export interface TransactionPage {
+  transactions: TransactionRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * A sealed block; `transactions` lists the message hashes it confirms
+ */
+export interface Block {
+  height: number;
+  timestamp: number;
+  previousHash: string;
+  merkleRoot: string;
+  transactions: string[];
+  hash: string;
+}
+
+/**
+ * Shared account controlled by `threshold` of its `owners`
+ */
+export interface MultisigAccount {
+  owners: string[];
+  threshold: number;
+}
+
+/**
+ * A registered multisig account as returned by the API
+ */
+export interface MultisigAccountInfo extends MultisigAccount {
+  address: string;
+}
+
+/**
+ * A spending limit on an account: at most `limit` base units of `asset`, fees
+ * included, sent within any `window` milliseconds
+ */
+export interface SpendingLimit {
+  asset: string;
+  limit: Amount;
+  window: number;
+  spent: Amount;
+  remaining: Amount;
+}
+
+/**
+ * The policies an account's transfers are checked against, as returned by
+ * GET /policy/:address
+ * A frozen account can neither send nor receive. Without `allowedRecipients`
+ * the account may pay anyone not in `deniedRecipients`
+ */
+export interface AccountPolicy {
+  address: string;
+  frozen: boolean;
+  spendingLimits: SpendingLimit[];
+  allowedRecipients?: string[];
+  deniedRecipients: string[];
+}
+
+/**
+ * Deployment details returned by GET /info
+ * `assets` is the token registry, default asset first; `decimals` and
+ * `limits.maxTransactionAmount` repeat the default asset's. `feeRecipient` is
+ * the account credited with transfer fees, when one is configured
+ */
+export interface ServerInfo {
+  chainId: number;
+  domain: { name: string; version: string; chainId: number };
+  messageVersions: MessageVersion[];
+  assets: AssetInfo[];
+  decimals: number;
+  limits: { maxTransactionAmount: Amount; maxBatchSize: number };
+  receiptSigner: string;
+  feeRecipient?: string;
+}
+
+/**
+ * Response of POST /send for a transfer applied right away
+ * `recipients` replaces `recipient` for a batch
+ */
+export interface SendAcceptedResponse {
+  status: 'accepted';
+  transactionId: number;
+  balance: Amount;
+  fee: Amount;
+  newNonce: number;
+  recipient?: { address: string; newBalance: Amount };
+  recipients?: { address: string; newBalance: Amount }[];
+  promoted: { transactionId: number; messageHash: string; nonce: number }[];
+  receipt: SignedReceipt;
+}
+
+/**
+ * Response of POST /send for a transfer queued behind missing nonces
+ */
+export interface SendPendingResponse {
+  status: 'pending';
+  nonce: number;
+  replaced: boolean;
+  expiresAt: number;
+}
+
+export type SendResponse = SendAcceptedResponse | SendPendingResponse;
+
+/**
+ * Pushed by GET /events whenever the balance of a subscribed address changes
+ */
+export interface BalanceEvent {
+  address: string;
+  asset: string;
+  balance: Amount;
+}
+
+/**
+ * Pushed by GET /events when a transaction queued in the mempool is dropped,
+ * because it expired or failed once its nonce came up (`pending`), or when
+ * POST /send refuses a well-formed transaction for its signature, funds or policies
+ */
+export interface RejectedEvent {
+  address: string;
+  messageHash: string;
+  nonce: number;
+  pending: boolean;
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * Payload of every event type pushed by GET /events
+ * `block` and `state` go to every subscriber, the others only to the addresses involved
+ */
+export interface ServerEvents {
+  balance: BalanceEvent;
+  transaction: TransactionRecord;
+  rejected: RejectedEvent;
+  block: Block;
+  state: StateCommitment;
+}
+
+export type ServerEventType = keyof ServerEvents;
+
+/**
+ * Operation signed by the configured admin key
+ * `account` and `amount` are required for mint and burn, `account` alone for
+ * freeze and unfreeze, and neither for reset; `asset` defaults to the server's
+ * default asset
+ */
+export interface AdminAction {
+  type: 'mint' | 'burn' | 'reset' | 'freeze' | 'unfreeze';
+  chainId: number;
+  account?: string;
+  asset?: string;
+  amount?: Amount;
+  timestamp: number;
+}
+
+export interface AdminRequestBody {
+  action: AdminAction;
+  signature: string;
+}
+
+/**
+ * Machine-readable error codes returned in `ErrorResponse.code`
+ */
+export enum ErrorCode {
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  INVALID_SIGNATURE_LENGTH = 'INVALID_SIGNATURE_LENGTH',
+  INVALID_RECOVERY_BYTE = 'INVALID_RECOVERY_BYTE',
+  INVALID_SIGNATURE_VALUES = 'INVALID_SIGNATURE_VALUES',
+  NON_CANONICAL_SIGNATURE = 'NON_CANONICAL_SIGNATURE',
+  DUPLICATE_SIGNATURE = 'DUPLICATE_SIGNATURE',
+  INSUFFICIENT_SIGNATURES = 'INSUFFICIENT_SIGNATURES',
+  INVALID_MULTISIG = 'INVALID_MULTISIG',
+  INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
+  INVALID_HASH = 'INVALID_HASH',
+  INVALID_PROOF = 'INVALID_PROOF',
+  INVALID_ADDRESS = 'INVALID_ADDRESS',
+  INVALID_NONCE = 'INVALID_NONCE',
+  INVALID_CHAIN_ID = 'INVALID_CHAIN_ID',
+  INVALID_TIMESTAMP = 'INVALID_TIMESTAMP',
+  TRANSACTION_EXPIRED = 'TRANSACTION_EXPIRED',
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  INVALID_ASSET = 'INVALID_ASSET',
+  INVALID_BATCH = 'INVALID_BATCH',
+  INVALID_FEE = 'INVALID_FEE',
+  ACCOUNT_FROZEN = 'ACCOUNT_FROZEN',
+  SPENDING_LIMIT_EXCEEDED = 'SPENDING_LIMIT_EXCEEDED',
+  RECIPIENT_NOT_ALLOWED = 'RECIPIENT_NOT_ALLOWED',
+  RECIPIENT_DENIED = 'RECIPIENT_DENIED',
+  SELF_TRANSFER = 'SELF_TRANSFER',
+  UNSUPPORTED_VERSION = 'UNSUPPORTED_VERSION',
+  MEMPOOL_FULL = 'MEMPOOL_FULL',
+  INVALID_PAGINATION = 'INVALID_PAGINATION',
+  NOT_FOUND = 'NOT_FOUND',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  RATE_LIMITED = 'RATE_LIMITED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/**
+ * JSON body of every error response from the server
+ */
+export type ErrorResponse = {
+  code: ErrorCode | string;
+  message: string;
+  details?: unknown;
+};
@@ -0,0 +1,452 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import * as secp from '@noble/secp256k1';
+import {
+  AdminAction,
+  applyFee,
+  AssetBalance,
+  buildPersonalSignPayload,
+  computeFee,
+  computeStateRoot,
+  createMnemonic,
+  decryptKeystore,
+  deriveHdPrivateKeys,
+  EMPTY_STATE_HASHES,
+  encryptKeystore,
+  ErrorCode,
+  hashAdminAction,
+  hashReceipt,
+  hashStateCommitment,
+  formatUnits,
+  getDuplicateRecipients,
+  getMessageSize,
+  hashTransactionMessage,
+  hasValidChecksum,
+  isValidMnemonic,
+  KeystoreFile,
+  MAX_UINT256,
+  MessageVersion,
+  normalizeAddress,
+  parseBaseUnits,
+  parseMessageHash,
+  parseUnits,
+  privateKeyToAddress,
+  publicKeyToAddress,
+  Receipt,
+  signAdminAction,
+  signatureId,
+  signReceipt,
+  signStateCommitment,
+  signTransactionMessage,
+  STATE_TREE_DEPTH,
+  StateCommitment,
+  StateProof,
+  toChecksumAddress,
+  TransactionMessage,
+  ValidationError,
+  verifyAccountProof,
+  verifyReceipt,
+  verifySignatureAndGetAddress,
+} from '../src/index.js';
+
+/**
+ * Vectors computed with ethers v6, an independent implementation of the
+ * same encodings, so both apps are checked against Ethereum tooling and not
+ * only against each other
+ */
+interface Vectors {
+  keys: { privateKey: string; publicKey: string; address: string; checksumAddress: string }[];
+  messages: {
+    name: string;
+    privateKey: string;
+    message: TransactionMessage;
+    personalSignPayload?: string;
+    messageHash: string;
+    signature: string;
+    address: string;
+  }[];
+  adminActions: {
+    privateKey: string;
+    action: AdminAction;
+    digest: string;
+    signature: string;
+    address: string;
+  }[];
+  receipts: {
+    privateKey: string;
+    receipt: Receipt;
+    digest: string;
+    signature: string;
+    address: string;
+  }[];
+  state: {
+    privateKey: string;
+    address: string;
+    emptyRoot: string;
+    commitment: StateCommitment;
+    digest: string;
+    signature: string;
+    accounts: {
+      address: string;
+      balance: string;
+      assets?: AssetBalance[];
+      nonce: number;
+      proof: StateProof;
+    }[];
+  };
+  amounts: { text: string; decimals: number; baseUnits: string; formatted: string }[];
+  hd: { mnemonic: string; path: string; accounts: { privateKey: string; address: string }[] };
+  keystores: { name: string; password: string; privateKey: string; keystore: KeystoreFile }[];
+  invalidSignatures: { name: string; messageHash: string; signature: string; code: string }[];
+}
+
+const vectors: Vectors = JSON.parse(
+  readFileSync(new URL('./vectors.json', import.meta.url), 'utf8'),
+);
+
+describe('addresses', () => {
+  for (const {
+    privateKey,
+    publicKey,
+    address,
+    checksumAddress,
+  } of vectors.keys) {
+    it(address, () => {
+      assert.equal(privateKeyToAddress(privateKey), address);
+      assert.equal(privateKeyToAddress(`0x${privateKey}`), address);
+      assert.equal(publicKeyToAddress(secp.etc.hexToBytes(publicKey)), address);
+    });
+
+    it(`checksums ${checksumAddress}`, () => {
+      assert.equal(toChecksumAddress(address), checksumAddress);
+      assert.equal(toChecksumAddress(`0x${address.slice(2).toUpperCase()}`), checksumAddress);
+      assert.equal(hasValidChecksum(checksumAddress), true);
+      assert.equal(normalizeAddress(checksumAddress), address);
+      assert.equal(normalizeAddress(address), address);
+    });
+  }
+
+  it('rejects a mixed-case address with a wrong checksum', () => {
+    const { checksumAddress } = vectors.keys[0];
+    const index = checksumAddress.search(/[a-f]/);
+    const mistyped = `${checksumAddress.slice(0, index)}${checksumAddress[index].toUpperCase()}${checksumAddress.slice(index + 1)}`;
+
+    assert.equal(hasValidChecksum(mistyped), false);
+    assert.throws(
+      () => normalizeAddress(mistyped),
+      (error) => error instanceof ValidationError && error.code === ErrorCode.INVALID_ADDRESS,
+    );
+    assert.throws(
+      () => normalizeAddress('0x1234'),
+      (error) => error instanceof ValidationError && error.code === ErrorCode.INVALID_ADDRESS,
+    );
+  });
+});
+
+describe('transaction messages', () => {
+  for (const vector of vectors.messages) {
+    const encoding = vector.message.version === MessageVersion.PERSONAL_SIGN ? 'rsv' : 'recovered';
+
+    describe(vector.name, () => {
+      it('hashes the message', () => {
+        assert.equal(hashTransactionMessage(vector.message), vector.messageHash);
+        if (vector.personalSignPayload !== undefined) {
+          assert.equal(buildPersonalSignPayload(vector.message), vector.personalSignPayload);
+        }
+      });
+
+      it('signs the message', async () => {
+        const signed = await signTransactionMessage(vector.message, vector.privateKey);
+        assert.deepEqual(signed, {
+          message: vector.message,
+          messageHash: vector.messageHash,
+          signature: vector.signature,
+        });
+      });
+
+      it('recovers the signer', () => {
+        assert.equal(
+          verifySignatureAndGetAddress(vector.messageHash, vector.signature, encoding),
+          vector.address,
+        );
+        assert.equal(
+          verifySignatureAndGetAddress(`0x${vector.messageHash.toUpperCase()}`, `0x${vector.signature}`, encoding),
+          vector.address,
+        );
+      });
+    });
+  }
+
+  it('gives a signature the same id in both layouts', () => {
+    const [vector] = vectors.messages;
+    const rsv = `${vector.signature.slice(2)}${vector.signature.startsWith('00') ? '1b' : '1c'}`;
+    assert.equal(signatureId(rsv, 'rsv'), signatureId(vector.signature));
+  });
+
+  it('finds recipients listed by more than one leg, whatever their case', () => {
+    const [{ address, checksumAddress }, other] = vectors.keys;
+    assert.deepEqual(getDuplicateRecipients([
+      { recipient: address, amount: '1' },
+      { recipient: other.address, amount: '2' },
+    ]), []);
+    assert.deepEqual(getDuplicateRecipients([
+      { recipient: address, amount: '1' },
+      { recipient: other.address, amount: '2' },
+      { recipient: checksumAddress, amount: '3' },
+    ]), [address]);
+  });
+
+  it('parses message hashes in either case, with or without 0x', () => {
+    const [{ messageHash }] = vectors.messages;
+    assert.equal(parseMessageHash(messageHash), messageHash);
+    assert.equal(parseMessageHash(`0x${messageHash.toUpperCase()}`), messageHash);
+  });
+
+  it('rejects message hashes that are not 32 bytes of hex with INVALID_HASH', () => {
+    for (const value of [123, null, undefined, { hash: 'ab' }, ['ab'], '', '0x1234', 'zz'.repeat(32)]) {
+      assert.throws(
+        () => parseMessageHash(value),
+        (error) => error instanceof ValidationError && error.code === ErrorCode.INVALID_HASH,
+      );
+    }
+  });
+});
+
+describe('admin actions', () => {
+  for (const vector of vectors.adminActions) {
+    it(vector.action.type, async () => {
+      assert.equal(hashAdminAction(vector.action), vector.digest);
+      assert.equal(await signAdminAction(vector.action, vector.privateKey), vector.signature);
+      assert.equal(verifySignatureAndGetAddress(vector.digest, vector.signature), vector.address);
+    });
+  }
+});
+
+describe('receipts', () => {
+  for (const vector of vectors.receipts) {
+    it(`sequence ${vector.receipt.sequence}`, async () => {
+      assert.equal(hashReceipt(vector.receipt), vector.digest);
+      const signed = await signReceipt(vector.receipt, vector.privateKey);
+      assert.equal(signed.signature, vector.signature);
+      assert.equal(
+        verifyReceipt(signed, vector.address, `0x${vector.receipt.messageHash}`),
+        vector.receipt,
+      );
+    });
+  }
+
+  it('rejects a receipt signed by another key or for another transaction', () => {
+    const [vector, other] = vectors.receipts;
+    const { address } = vector;
+    const signed = { receipt: vector.receipt, signature: vector.signature };
+
+    assert.throws(
+      () => verifyReceipt(signed, vectors.keys[0].address),
+      (error) => error instanceof ValidationError && error.code === ErrorCode.INVALID_SIGNATURE,
+    );
+    assert.throws(
+      () => verifyReceipt({ ...signed, receipt: { ...vector.receipt, sequence: 2 } }, address),
+      (error) => error instanceof ValidationError && error.code === ErrorCode.INVALID_SIGNATURE,
+    );
+    assert.throws(
+      () => verifyReceipt(signed, address, other.receipt.messageHash),
+      (error) => error instanceof ValidationError && error.code === ErrorCode.INVALID_HASH,
+    );
+  });
+});
+
+describe('state proofs', () => {
+  const { state } = vectors;
+  const commitment = { commitment: state.commitment, signature: state.signature };
+  const isCode = (code: ErrorCode) => (error: unknown) =>
+    error instanceof ValidationError && error.code === code;
+
+  it('hashes an empty tree', () => {
+    assert.equal(secp.etc.bytesToHex(EMPTY_STATE_HASHES[STATE_TREE_DEPTH]), state.emptyRoot);
+  });
+
+  it('signs the commitment', async () => {
+    assert.equal(hashStateCommitment(state.commitment), state.digest);
+    assert.deepEqual(await signStateCommitment(state.commitment, state.privateKey), commitment);
+  });
+
+  for (const account of state.accounts) {
+    it(`proves ${account.address}`, () => {
+      assert.equal(
+        computeStateRoot(
+          account.address,
+          account.balance,
+          account.nonce,
+          account.proof,
+          account.assets,
+        ),
+        state.commitment.root,
+      );
+      verifyAccountProof({ ...account, commitment }, state.address);
+    });
+  }
+
+  it('rejects a wrong balance, a padded proof or another signer', () => {
+    const [account] = state.accounts;
+    const { proof } = account;
+
+    assert.throws(
+      () => verifyAccountProof({ ...account, balance: `${account.balance}1`, commitment }, state.address),
+      isCode(ErrorCode.INVALID_PROOF),
+    );
+    assert.throws(
+      () => verifyAccountProof({
+        ...account,
+        proof: { ...proof, siblings: [...proof.siblings, state.emptyRoot] },
+        commitment,
+      }, state.address),
+      isCode(ErrorCode.INVALID_PROOF),
+    );
+    assert.throws(
+      () => verifyAccountProof({ ...account, commitment }, vectors.keys[0].address),
+      isCode(ErrorCode.INVALID_SIGNATURE),
+    );
+  });
+
+  it('commits to balances in other assets', () => {
+    const holder = state.accounts.find(({ assets }) => assets?.length);
+    assert.ok(holder?.assets);
+    const [first, ...rest] = holder.assets;
+
+    // The order of the list does not matter, and a zero balance counts as no holding
+    verifyAccountProof({
+      ...holder,
+      assets: [...rest, first, { asset: 'ZERO', balance: '0' }],
+      commitment,
+    }, state.address);
+    assert.throws(
+      () => verifyAccountProof({
+        ...holder,
+        assets: [{ ...first, balance: `${first.balance}0` }, ...rest],
+        commitment,
+      }, state.address),
+      isCode(ErrorCode.INVALID_PROOF),
+    );
+    assert.throws(
+      () => verifyAccountProof({ ...holder, assets: rest, commitment }, state.address),
+      isCode(ErrorCode.INVALID_PROOF),
+    );
+  });
+});
+
+describe('amounts', () => {
+  for (const {
+    text,
+    decimals,
+    baseUnits,
+    formatted,
+  } of vectors.amounts) {
+    it(`${text} with ${decimals} decimals`, () => {
+      assert.equal(parseUnits(text, decimals), BigInt(baseUnits));
+      assert.equal(formatUnits(baseUnits, decimals), formatted);
+      assert.equal(parseBaseUnits(baseUnits), BigInt(baseUnits));
+    });
+  }
+
+  it('rejects malformed amounts and excess precision', () => {
+    const isInvalidAmount = (error: unknown) =>
+      error instanceof ValidationError && error.code === ErrorCode.INVALID_AMOUNT;
+
+    ['', '.', '-1', '1e3', '0x10', '1,5'].forEach((text) =>
+      assert.throws(() => parseUnits(text, 18), isInvalidAmount));
+    assert.throws(() => parseUnits('1.5', 0), isInvalidAmount);
+    assert.equal(parseUnits('1.50', 1), 15n);
+
+    [1.5, -1, '01', ' 1', '1.0', (MAX_UINT256 + 1n).toString()].forEach((value) =>
+      assert.throws(() => parseBaseUnits(value), isInvalidAmount));
+    assert.equal(parseBaseUnits(42), 42n);
+  });
+});
+
+describe('fees', () => {
+  const feeVectors = vectors.messages.filter(({ message }) => message.fee !== undefined);
+
+  for (const { name, message, personalSignPayload } of feeVectors) {
+    it(`sizes ${name} without its fee`, () => {
+      const unsigned = { ...message, version: MessageVersion.PERSONAL_SIGN, fee: undefined };
+      assert.equal(getMessageSize(message), getMessageSize(unsigned));
+      if (personalSignPayload !== undefined) {
+        const withoutFee = personalSignPayload.replace(`\nFee: ${message.fee}`, '');
+        assert.equal(getMessageSize(message), new TextEncoder().encode(withoutFee).length);
+      }
+    });
+  }
+
+  it('charges base plus perByte for every byte and keeps a set fee', () => {
+    const { message } = feeVectors[0];
+    const draft = { ...message, fee: undefined };
+    const size = BigInt(getMessageSize(draft));
+
+    assert.equal(computeFee(draft, { base: '10', perByte: '2' }), 10n + 2n * size);
+    assert.equal(applyFee(draft, { base: '10', perByte: '2' }).fee, String(10n + 2n * size));
+    assert.equal(applyFee(draft, { base: '0', perByte: '0' }).fee, undefined);
+    assert.equal(applyFee(draft).fee, undefined);
+    assert.equal(applyFee(message, { base: '10', perByte: '2' }).fee, message.fee);
+  });
+});
+
+describe('HD wallets', () => {
+  const { mnemonic, path, accounts } = vectors.hd;
+
+  it('derives the BIP-44 accounts of a mnemonic', () => {
+    const privateKeys = deriveHdPrivateKeys(` ${mnemonic} `, accounts.length, path);
+    assert.deepEqual(privateKeys, accounts.map(({ privateKey }) => privateKey));
+    assert.deepEqual(privateKeys.map(privateKeyToAddress), accounts.map(({ address }) => address));
+    assert.deepEqual(deriveHdPrivateKeys(mnemonic, 1), privateKeys.slice(0, 1));
+  });
+
+  it('creates valid mnemonics and rejects invalid ones', () => {
+    assert.equal(isValidMnemonic(createMnemonic()), true);
+    assert.equal(isValidMnemonic(mnemonic.replace(/junk$/, 'test')), false);
+    assert.throws(() => deriveHdPrivateKeys('not a mnemonic', 1), /Invalid BIP-39 mnemonic/);
+  });
+});
+
+describe('keystores', () => {
+  const [{ privateKey }] = vectors.keys;
+  const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+  for (const [kdf, light] of [['scrypt', true], ['pbkdf2', false]] as const) {
+    it(`encrypts and decrypts a key with ${kdf}`, async () => {
+      const keystore = await encryptKeystore(privateKey, 'secret', kdf, light);
+      assert.equal(keystore.crypto.kdf, kdf);
+      assert.match(keystore.id, UUID_V4);
+      assert.equal(`0x${keystore.address}`, privateKeyToAddress(privateKey));
+      assert.equal(await decryptKeystore(keystore, 'secret'), privateKey);
+      await assert.rejects(decryptKeystore(keystore, 'wrong'), /Wrong password/);
+    });
+  }
+
+  it('rejects keystores that are not version 3 with aes-128-ctr', async () => {
+    const keystore = await encryptKeystore(privateKey, 'secret', 'scrypt', true);
+    await assert.rejects(
+      decryptKeystore({ ...keystore, version: 2 as 3 }, 'secret'),
+      /Unsupported keystore/,
+    );
+  });
+
+  for (const { name, password, privateKey: expected, keystore } of vectors.keystores) {
+    it(`decrypts the ${name} keystore, whichever case its crypto section has`, async () => {
+      const { Crypto, ...rest } = keystore;
+      assert.equal(await decryptKeystore(keystore, password), expected);
+      assert.equal(await decryptKeystore({ ...rest, crypto: Crypto }, password), expected);
+    });
+  }
+});
+
+describe('invalid signatures', () => {
+  for (const { name, messageHash, signature, code } of vectors.invalidSignatures) {
+    it(`rejects ${name} with ${code}`, () => {
+      assert.throws(
+        () => verifySignatureAndGetAddress(messageHash, signature),
+        (error) => error instanceof ValidationError && error.code === code,
+      );
+    });
+  }
+});
@@ -0,0 +1,79 @@
+import {
+  AdminAction,
+  parseUnits,
+  ServerInfo,
+  signAdminAction,
+} from '@ecdsa-node/protocol';
+
+/**
+ * Sign an admin action with ADMIN_PRIVATE_KEY and send it to the server
+ *
+ * Usage:
+ *   ADMIN_PRIVATE_KEY=<hex> npm run admin -- mint <address> <amount> [asset]
+ *   ADMIN_PRIVATE_KEY=<hex> npm run admin -- burn <address> <amount> [asset]
+ *   ADMIN_PRIVATE_KEY=<hex> npm run admin -- reset
+ *   ADMIN_PRIVATE_KEY=<hex> npm run admin -- freeze|unfreeze <address>
+ *
+ * Amounts are in tokens, e.g. 1.5, and converted to base units with the
+ * decimals of the asset (the server's default asset if omitted)
+ */
+const serverUrl = process.env.SERVER_URL || 'http://localhost:3042';
+const privateKey = (process.env.ADMIN_PRIVATE_KEY || '').replace(/^0x/, '');
+const [type, account, amount, asset] = process.argv.slice(2);
+
+async function main() {
+  if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new Error('Set ADMIN_PRIVATE_KEY to the admin private key (64 hex characters)');
+  }
+  if (
+    type !== 'mint'
+    && type !== 'burn'
+    && type !== 'reset'
+    && type !== 'freeze'
+    && type !== 'unfreeze'
+  ) {
+    throw new Error('Usage: admin mint|burn <address> <amount> [asset], admin freeze|unfreeze <address>, or admin reset');
+  }
+
+  const info = await fetch(`${serverUrl}/info`).then((res) => res.json()) as ServerInfo;
+  const assetInfo = asset === undefined
+    ? info.assets[0]
+    : info.assets.find(({ symbol }) => symbol === asset);
+  if ((type === 'mint' || type === 'burn') && !assetInfo) {
+    throw new Error(`Unknown asset ${asset}, the server has ${info.assets.map(({ symbol }) => symbol).join(', ')}`);
+  }
+
+  const action: AdminAction = type === 'mint' || type === 'burn'
+    ? {
+      type,
+      chainId: info.chainId,
+      account,
+      ...(asset !== undefined ? { asset } : {}),
+      amount: String(parseUnits(amount ?? '', assetInfo?.decimals ?? info.decimals)),
+      timestamp: Date.now(),
+    }
+    : {
+      type,
+      chainId: info.chainId,
+      ...(type !== 'reset' ? { account } : {}),
+      timestamp: Date.now(),
+    };
+
+  const signature = await signAdminAction(action, privateKey);
+
+  const res = await fetch(`${serverUrl}/admin/${type}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, signature }),
+  });
+
+  console.log(`${res.status} ${JSON.stringify(await res.json(), null, 2)}`);
+  if (!res.ok) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
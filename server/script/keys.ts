@@ -0,0 +1,293 @@
+import fs from 'fs';
+import { parseArgs } from 'util';
+import * as secp from '@noble/secp256k1';
+import {
+  createKeySigner,
+  createMnemonic,
+  decryptKeystore,
+  deriveHdPrivateKeys,
+  EcdsaNodeClient,
+  encryptKeystore,
+  isApiError,
+  KeystoreFile,
+  KeystoreKdf,
+  normalizePrivateKey,
+  parseUnits,
+  privateKeyToAddress,
+  publicKeyToAddress,
+  SignedReceipt,
+  toChecksumAddress,
+  verifyReceipt,
+} from '@ecdsa-node/protocol';
+import { Genesis, parseGenesis } from '../src/genesis';
+
+const USAGE = `Usage: npm run keys -- <command> [options]
+
+Commands:
+  generate [count]              Generate random key pairs (default 3)
+    --mnemonic <words>          Derive the keys from a BIP-39 mnemonic instead
+    --new-mnemonic              Derive the keys from a freshly generated mnemonic
+    --path <path>               BIP-32 base path, key i is <path>/i (default m/44'/60'/0'/0)
+    --genesis <file>            Also write a genesis file funding every key
+    --balance <amount>          Balance per key in the genesis file, in base units (default 100)
+    --json                      Print the keys as JSON
+  encrypt <privateKey>          Encrypt a key into an Ethereum v3 keystore
+    --kdf scrypt|pbkdf2         Key derivation function (default scrypt)
+    --light                     Use light scrypt parameters (faster, weaker)
+    --out <file>                Write the keystore to a file instead of printing it
+  decrypt <keystoreFile>        Print the private key stored in a keystore
+  address <privateKey>          Print the address of a private key
+  send                          Sign a transfer, paying the server's fee, and submit it
+    --to <address> --amount <n> Recipient and amount in tokens, e.g. 1.5
+    --asset <symbol>            Asset to send (default: the server's default asset)
+    --key <privateKey>          Signing key (or PRIVATE_KEY), or
+    --keystore <file>           a keystore to decrypt
+    --valid-for <ms>            Validity period (default: the server's 1 hour limit)
+  verify-receipt <file>         Check a signed receipt (or a send response) offline
+    --signer <address>          The server's receipt signer, from GET /info
+    --hash <messageHash>        Also check that the receipt is for this transaction
+
+Passwords are read from --password or KEYSTORE_PASSWORD.
+The server is SERVER_URL or --server (default http://localhost:3042).`;
+
+const DEFAULT_PATH = "m/44'/60'/0'/0";
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    mnemonic: { type: 'string' },
+    'new-mnemonic': { type: 'boolean' },
+    path: { type: 'string', default: DEFAULT_PATH },
+    genesis: { type: 'string' },
+    balance: { type: 'string', default: '100' },
+    json: { type: 'boolean' },
+    kdf: { type: 'string', default: 'scrypt' },
+    light: { type: 'boolean' },
+    out: { type: 'string' },
+    password: { type: 'string' },
+    to: { type: 'string' },
+    amount: { type: 'string' },
+    asset: { type: 'string' },
+    key: { type: 'string' },
+    keystore: { type: 'string' },
+    'valid-for': { type: 'string' },
+    server: { type: 'string' },
+    signer: { type: 'string' },
+    hash: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+const [command, ...args] = positionals;
+
+interface KeyPair {
+  path?: string;
+  privateKey: string;
+  publicKey: string;
+  address: string;
+}
+
+/**
+ * Parse a non-negative integer option (throws on invalid)
+ */
+function parseCount(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer, got ${value}`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Read and normalize a hex private key (throws on invalid)
+ */
+function parsePrivateKey(value: string | undefined): string {
+  const privateKey = normalizePrivateKey(value ?? '');
+  if (!privateKey) {
+    throw new Error('Expected a private key of 64 hex characters');
+  }
+  return privateKey;
+}
+
+function getPassword(): string {
+  const password = options.password ?? process.env.KEYSTORE_PASSWORD;
+  if (!password) {
+    throw new Error('Set the keystore password with --password or KEYSTORE_PASSWORD');
+  }
+  return password;
+}
+
+function readKeystore(filePath: string): KeystoreFile {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as KeystoreFile;
+}
+
+/**
+ * Derive the public key and Ethereum address of a private key
+ */
+function toKeyPair(privateKey: Uint8Array, path?: string): KeyPair {
+  const publicKey = secp.getPublicKey(privateKey, false);
+
+  return {
+    ...(path ? { path } : {}),
+    privateKey: secp.etc.bytesToHex(privateKey),
+    publicKey: secp.etc.bytesToHex(publicKey),
+    address: publicKeyToAddress(publicKey),
+  };
+}
+
+/**
+ * Derive `count` keys at <basePath>/0 .. <basePath>/count-1 from a mnemonic
+ */
+function deriveKeyPairs(mnemonic: string, basePath: string, count: number): KeyPair[] {
+  return deriveHdPrivateKeys(mnemonic, count, basePath).map((privateKey, index) =>
+    toKeyPair(secp.etc.hexToBytes(privateKey), `${basePath}/${index}`));
+}
+
+function generate(): void {
+  const count = parseCount(args[0] ?? '3', 'count');
+  const mnemonic = options['new-mnemonic'] ? createMnemonic() : options.mnemonic;
+  const keyPairs = mnemonic
+    ? deriveKeyPairs(mnemonic, options.path, count)
+    : Array.from({ length: count }, () => toKeyPair(secp.utils.randomSecretKey()));
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...(mnemonic ? { mnemonic } : {}), keys: keyPairs }, null, 2));
+  } else {
+    console.log('🔐 Generating key pairs...\n');
+    if (options['new-mnemonic']) {
+      console.log(`Mnemonic: ${mnemonic}\n`);
+    }
+
+    keyPairs.forEach((keyPair, index) => {
+      console.log(`Account ${index + 1}:${keyPair.path ? ` (${keyPair.path})` : ''}`);
+      console.log(`Private Key: ${keyPair.privateKey}`);
+      console.log(`Public Key:  ${keyPair.publicKey}`);
+      console.log(`Address:     ${toChecksumAddress(keyPair.address)}`);
+      console.log('');
+    });
+  }
+
+  if (options.genesis) {
+    const balance = options.balance.trim();
+    const genesis: Genesis = parseGenesis({
+      balances: Object.fromEntries(keyPairs.map(({ address }) => [address, balance])),
+    }, '--balance');
+    // Balances are written as strings, which JSON numbers cannot hold beyond 2^53
+    const balances = Object.fromEntries(Object.entries(genesis.balances)
+      .map(([address, amount]) => [address, amount.toString()]));
+    fs.writeFileSync(options.genesis, `${JSON.stringify({ balances }, null, 2)}\n`);
+    console.error(`📄 Wrote genesis file ${options.genesis} (${balance} per account)\n`);
+  }
+
+  if (!options.json) {
+    console.log('⚠️  IMPORTANT: Save these private keys securely!');
+    console.log('💡 Use the addresses for server balances and private keys for client-side signing.\n');
+  }
+}
+
+async function encrypt(): Promise<void> {
+  const privateKey = parsePrivateKey(args[0]);
+  if (options.kdf !== 'scrypt' && options.kdf !== 'pbkdf2') {
+    throw new Error(`--kdf must be scrypt or pbkdf2, got ${options.kdf}`);
+  }
+
+  const keystore = await encryptKeystore(
+    privateKey,
+    getPassword(),
+    options.kdf as KeystoreKdf,
+    options.light,
+  );
+  const json = JSON.stringify(keystore, null, 2);
+
+  if (options.out) {
+    fs.writeFileSync(options.out, `${json}\n`, { mode: 0o600 });
+    console.log(`🔒 Wrote keystore for 0x${keystore.address} to ${options.out}`);
+  } else {
+    console.log(json);
+  }
+}
+
+async function decrypt(): Promise<void> {
+  if (!args[0]) {
+    throw new Error('Usage: decrypt <keystoreFile>');
+  }
+  console.log(await decryptKeystore(readKeystore(args[0]), getPassword()));
+}
+
+function address(): void {
+  const privateKey = parsePrivateKey(args[0]);
+  console.log(toKeyPair(secp.etc.hexToBytes(privateKey)).address);
+}
+
+async function send(): Promise<void> {
+  const client = new EcdsaNodeClient({ baseUrl: options.server || process.env.SERVER_URL });
+  const privateKey = options.keystore
+    ? await decryptKeystore(readKeystore(options.keystore), getPassword())
+    : parsePrivateKey(options.key ?? process.env.PRIVATE_KEY);
+
+  if (!options.to || !options.amount) {
+    throw new Error('Usage: send --to <address> --amount <n> (--key <privateKey> | --keystore <file>)');
+  }
+  const { assets } = await client.getInfo();
+  const asset = options.asset === undefined
+    ? assets[0]
+    : assets.find(({ symbol }) => symbol === options.asset);
+  if (!asset) {
+    throw new Error(`Unknown asset ${options.asset}, the server has ${assets.map(({ symbol }) => symbol).join(', ')}`);
+  }
+  const amount = parseUnits(options.amount, asset.decimals).toString();
+
+  // The client picks the nonce after any transfers still waiting in the mempool
+  const timestamp = Date.now();
+  const response = await client.send({
+    sender: privateKeyToAddress(privateKey),
+    recipient: options.to,
+    ...(options.asset !== undefined ? { asset: options.asset } : {}),
+    amount,
+    timestamp,
+    ...(options['valid-for']
+      ? { validUntil: timestamp + parseCount(options['valid-for'], '--valid-for') }
+      : {}),
+  }, createKeySigner(privateKey));
+
+  console.log(JSON.stringify(response, null, 2));
+}
+
+function verifyReceiptFile(): void {
+  if (!args[0] || !options.signer) {
+    throw new Error('Usage: verify-receipt <file> --signer <address> [--hash <messageHash>]');
+  }
+
+  // Accept a bare signed receipt or the whole POST /send response
+  const parsed = JSON.parse(fs.readFileSync(args[0], 'utf8'));
+  const signed: SignedReceipt = parsed.receipt?.receipt ? parsed.receipt : parsed;
+  const receipt = verifyReceipt(signed, options.signer, options.hash);
+
+  console.log(`✅ Receipt signed by ${toChecksumAddress(options.signer)}`);
+  console.log(JSON.stringify(receipt, null, 2));
+}
+
+const commands: Record<string, () => void | Promise<void>> = {
+  generate,
+  encrypt,
+  decrypt,
+  address,
+  send,
+  'verify-receipt': verifyReceiptFile,
+};
+
+async function main() {
+  if (options.help || !command || !commands[command]) {
+    console.log(USAGE);
+    process.exitCode = options.help ? 0 : 1;
+    return;
+  }
+  await commands[command]();
+}
+
+main().catch((error) => {
+  if (isApiError(error)) {
+    console.error(`❌ ${error.code}: ${error.message}`);
+  } else {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,104 @@
+import { AssetInfo, ErrorCode } from './types';
+import { ValidationError } from './errors';
+import { ServerConfig } from './config';
+
+/**
+ * An asset the ledger keeps balances of, with its transfer limit and fee
+ * schedule in base units
+ */
+export interface RegisteredAsset {
+  symbol: string;
+  decimals: number;
+  maxTransactionAmount: bigint;
+  fee: { base: bigint; perByte: bigint };
+}
+
+export interface AssetRegistry {
+  /** Symbol of the asset moved by messages and admin actions without an asset */
+  readonly defaultAsset: string;
+  list(): readonly RegisteredAsset[];
+  get(symbol: string): RegisteredAsset | undefined;
+  resolve(symbol: unknown): RegisteredAsset;
+}
+
+/**
+ * Describe a registered asset as listed by the API, with its limit and fees as
+ * decimal strings
+ */
+export function formatAsset({
+  symbol,
+  decimals,
+  maxTransactionAmount,
+  fee,
+}: RegisteredAsset): AssetInfo {
+  return {
+    symbol,
+    decimals,
+    maxTransactionAmount: String(maxTransactionAmount),
+    fee: { base: String(fee.base), perByte: String(fee.perByte) },
+  };
+}
+
+/**
+ * Create the registry of the default asset and the configured extra assets
+ * Extra assets without their own limit or fees share the default
+ * maxTransactionAmount, feeBase and feePerByte
+ */
+export function createAssetRegistry(
+  config: Pick<
+    ServerConfig,
+    'symbol' | 'decimals' | 'assets' | 'maxTransactionAmount' | 'feeBase' | 'feePerByte'
+  >,
+): AssetRegistry {
+  const assets: RegisteredAsset[] = [
+    {
+      symbol: config.symbol,
+      decimals: config.decimals,
+      maxTransactionAmount: config.maxTransactionAmount,
+      fee: { base: config.feeBase, perByte: config.feePerByte },
+    },
+    ...config.assets.map(({
+      symbol,
+      decimals,
+      maxTransactionAmount,
+      feeBase,
+      feePerByte,
+    }) => ({
+      symbol,
+      decimals,
+      maxTransactionAmount: maxTransactionAmount ?? config.maxTransactionAmount,
+      fee: { base: feeBase ?? config.feeBase, perByte: feePerByte ?? config.feePerByte },
+    })),
+  ];
+  const bySymbol = new Map(assets.map((asset) => [asset.symbol, asset]));
+
+  const list = (): readonly RegisteredAsset[] => assets;
+
+  const get = (symbol: string): RegisteredAsset | undefined => bySymbol.get(symbol);
+
+  /**
+   * Look up the asset named by a message or request, the default asset when
+   * none is named (throws on unknown)
+   */
+  const resolve = (symbol: unknown): RegisteredAsset => {
+    const asset = symbol === undefined
+      ? assets[0]
+      : typeof symbol === 'string' && bySymbol.get(symbol);
+
+    if (!asset) {
+      throw new ValidationError(
+        ErrorCode.INVALID_ASSET,
+        `Unknown asset: expected one of ${[...bySymbol.keys()].join(', ')}`,
+        { received: symbol, supported: [...bySymbol.keys()] },
+      );
+    }
+    return asset;
+  };
+
+  return {
+    defaultAsset: config.symbol,
+    list,
+    get,
+    resolve,
+  };
+}
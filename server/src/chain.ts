@@ -0,0 +1,199 @@
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { normalizeHash } from '@ecdsa-node/protocol';
+import { logger } from './logger/logger';
+import { appendJournal, readJournal } from './journal';
+import { Block } from './types';
+
+const ZERO_HASH = '0'.repeat(64);
+
+export interface BlockPage {
+  blocks: Block[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface Blockchain {
+  addTransaction(messageHash: string): void;
+  getHead(): Block;
+  getBlock(height: number): Block | undefined;
+  getBlocks(offset: number, limit: number): BlockPage;
+  getPendingCount(): number;
+  sealBlock(): Block | undefined;
+  stop(): void;
+}
+
+export interface BlockchainOptions {
+  filePath: string;
+  maxBlockSize: number;
+  blockInterval: number;
+  knownTransactions: readonly string[];
+  onSeal?: (block: Block) => void;
+}
+
+/**
+ * Compute the merkle root of a list of transaction hashes (pure function)
+ * Odd levels duplicate their last node; an empty list has the zero hash as root
+ */
+export function computeMerkleRoot(transactionHashes: readonly string[]): string {
+  if (transactionHashes.length === 0) {
+    return ZERO_HASH;
+  }
+
+  const hashPair = (left: Uint8Array, right: Uint8Array): Uint8Array =>
+    keccak_256(secp.etc.concatBytes(left, right));
+
+  const reduceLevel = (level: Uint8Array[]): Uint8Array => {
+    if (level.length === 1) {
+      return level[0];
+    }
+
+    const nextLevel = Array.from({ length: Math.ceil(level.length / 2) }, (_, index) =>
+      hashPair(level[index * 2], level[index * 2 + 1] ?? level[index * 2]));
+    return reduceLevel(nextLevel);
+  };
+
+  const leaves = transactionHashes.map((hash) => secp.etc.hexToBytes(normalizeHash(hash)));
+  return secp.etc.bytesToHex(reduceLevel(leaves));
+}
+
+/**
+ * Compute the hash of a block header (pure function)
+ */
+export function computeBlockHash(block: Omit<Block, 'hash' | 'transactions'>): string {
+  const header = JSON.stringify([
+    block.height,
+    block.timestamp,
+    block.previousHash,
+    block.merkleRoot,
+  ]);
+  return secp.etc.bytesToHex(keccak_256(new TextEncoder().encode(header)));
+}
+
+/**
+ * Build a block on top of the given parent (pure function)
+ */
+function createBlock(
+  parent: Block | undefined,
+  transactions: readonly string[],
+  timestamp: number,
+): Block {
+  const header = {
+    height: parent ? parent.height + 1 : 0,
+    timestamp,
+    previousHash: parent ? parent.hash : ZERO_HASH,
+    merkleRoot: computeMerkleRoot(transactions),
+  };
+
+  return { ...header, transactions: [...transactions], hash: computeBlockHash(header) };
+}
+
+/**
+ * Re-verify a chain from genesis (throws on the first invalid block)
+ */
+export function verifyChain(blocks: readonly Block[]): void {
+  blocks.forEach((block, index) => {
+    const parent = blocks[index - 1];
+    const expectedPrevious = parent ? parent.hash : ZERO_HASH;
+
+    if (block.height !== index) {
+      throw new Error(`Block ${index}: expected height ${index}, got ${block.height}`);
+    }
+    if (block.previousHash !== expectedPrevious) {
+      throw new Error(`Block ${index}: previous hash does not match block ${index - 1}`);
+    }
+    if (block.merkleRoot !== computeMerkleRoot(block.transactions)) {
+      throw new Error(`Block ${index}: merkle root does not match its transactions`);
+    }
+    if (block.hash !== computeBlockHash(block)) {
+      throw new Error(`Block ${index}: hash does not match its header`);
+    }
+  });
+}
+
+/**
+ * Create a chain that batches accepted transactions into hash-linked blocks
+ * A block is sealed when `maxBlockSize` transactions are pending or every
+ * `blockInterval` milliseconds if at least one is pending; `onSeal` is called
+ * with every new block
+ */
+export function createBlockchain(options: BlockchainOptions): Blockchain {
+  const {
+    filePath,
+    maxBlockSize,
+    blockInterval,
+    knownTransactions,
+    onSeal,
+  } = options;
+  const blocks = readJournal<Block>(filePath);
+
+  verifyChain(blocks);
+
+  const persist = (block: Block): void => {
+    appendJournal(filePath, block);
+    blocks.push(block);
+  };
+
+  if (blocks.length === 0) {
+    persist(createBlock(undefined, [], Date.now()));
+    logger.info('Created genesis block');
+  }
+
+  // Transactions accepted before a crash but never sealed go back into the pending pool
+  const confirmed = new Set(blocks.flatMap((block) => block.transactions));
+  const pending = knownTransactions
+    .map(normalizeHash)
+    .filter((hash) => !confirmed.has(hash));
+
+  logger.info(`Loaded ${blocks.length} blocks from ${filePath} (${pending.length} pending transactions)`);
+
+  const getHead = (): Block => blocks[blocks.length - 1];
+
+  const sealBlock = (): Block | undefined => {
+    if (pending.length === 0) {
+      return undefined;
+    }
+
+    const block = createBlock(getHead(), pending.splice(0, maxBlockSize), Date.now());
+    persist(block);
+    logger.info(`Sealed block ${block.height} with ${block.transactions.length} transactions`);
+    onSeal?.(block);
+
+    return block;
+  };
+
+  const addTransaction = (messageHash: string): void => {
+    pending.push(normalizeHash(messageHash));
+    if (pending.length >= maxBlockSize) {
+      sealBlock();
+    }
+  };
+
+  const getBlock = (height: number): Block | undefined => blocks[height];
+
+  const getBlocks = (offset: number, limit: number): BlockPage => {
+    const end = Math.max(0, blocks.length - offset);
+    const start = Math.max(0, end - limit);
+
+    return {
+      blocks: blocks.slice(start, end).reverse(),
+      total: blocks.length,
+      offset,
+      limit,
+    };
+  };
+
+  const getPendingCount = (): number => pending.length;
+
+  const timer = setInterval(sealBlock, blockInterval);
+
+  const stop = (): void => {
+    clearInterval(timer);
+    while (pending.length > 0) {
+      sealBlock();
+    }
+  };
+
+  return { addTransaction, getHead, getBlock, getBlocks, getPendingCount, sealBlock, stop };
+}
@@ -0,0 +1,442 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import { hasValidChecksum, isAddress, parseBaseUnits } from '@ecdsa-node/protocol';
+import { ConfigError } from './errors';
+import { Genesis, loadGenesis, parseGenesis } from './genesis';
+import { LOG_LEVELS, LogLevel } from './logger/types';
+
+/**
+ * An asset besides the default one; without its own limit or fees it shares
+ * maxTransactionAmount, feeBase and feePerByte
+ */
+export interface AssetConfig {
+  symbol: string;
+  decimals: number;
+  maxTransactionAmount?: bigint;
+  feeBase?: bigint;
+  feePerByte?: bigint;
+}
+
+/**
+ * Restrictions on the transfers of one account, or of every account when
+ * `account` is "*"; an account must pass every rule that names it
+ * A spending limit caps the amounts plus fees sent in an asset (the default
+ * asset without one) within any rolling `window` of milliseconds
+ */
+export interface PolicyRule {
+  account: string;
+  spendingLimit?: { asset?: string; amount: bigint; window: number };
+  allowedRecipients?: string[];
+  deniedRecipients?: string[];
+}
+
+export interface ServerConfig {
+  port: number;
+  chainId: number;
+  logLevel: LogLevel;
+  corsOrigins: string[];
+  symbol: string;
+  decimals: number;
+  assets: AssetConfig[];
+  maxTransactionAmount: bigint;
+  maxBatchSize: number;
+  feeBase: bigint;
+  feePerByte: bigint;
+  feeRecipient?: string;
+  policies: PolicyRule[];
+  clockSkewTolerance: number;
+  shutdownTimeout: number;
+  storageFile: string;
+  historyFile: string;
+  blocksFile: string;
+  supplyFile: string;
+  identityKeyFile: string;
+  genesisFile?: string;
+  genesis: Genesis;
+  adminAddress?: string;
+  faucetAmount: bigint;
+  faucetCooldown: number;
+}
+
+type SettingKey = Exclude<keyof ServerConfig, 'genesis'>;
+
+interface SettingSpec<T> {
+  env: string;
+  parse(value: unknown): T;
+}
+
+// Looked up in the working directory when CONFIG_FILE is not set
+const CONFIG_FILE_CANDIDATES = ['config.json', 'config.yaml', 'config.yml'];
+const DEFAULT_GENESIS_FILE = 'genesis.json';
+
+const DEFAULTS: Partial<Record<SettingKey, unknown>> = {
+  port: 3042,
+  chainId: 1337,
+  logLevel: 'info',
+  corsOrigins: ['*'],
+  symbol: 'TOKEN',
+  decimals: 0,
+  assets: [],
+  maxTransactionAmount: 1000000n,
+  maxBatchSize: 50,
+  feeBase: 0n,
+  feePerByte: 0n,
+  policies: [],
+  clockSkewTolerance: 30 * 1000,
+  shutdownTimeout: 10000,
+  storageFile: 'storage.json',
+  historyFile: 'transactions.jsonl',
+  blocksFile: 'blocks.jsonl',
+  supplyFile: 'supply.jsonl',
+  identityKeyFile: 'identity.key',
+  faucetAmount: 0n,
+  faucetCooldown: 60 * 60 * 1000,
+};
+
+/**
+ * Parse an integer within bounds; environment variables arrive as strings (throws on invalid)
+ */
+const integer = (min: number, max = Number.MAX_SAFE_INTEGER) => (value: unknown): number => {
+  const parsed = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isSafeInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(max === Number.MAX_SAFE_INTEGER
+      ? `must be an integer of at least ${min}`
+      : `must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+/**
+ * Parse an amount in base units, from a number or a decimal string so values
+ * beyond 2^53 keep their precision (throws on invalid)
+ */
+const amount = (min: bigint) => (value: unknown): bigint => {
+  let parsed: bigint;
+  try {
+    parsed = typeof value === 'bigint'
+      ? value
+      : parseBaseUnits(typeof value === 'string' ? value.trim() : value);
+  } catch {
+    throw new Error('must be an amount in base units, as an integer or a decimal string');
+  }
+  if (parsed < min) {
+    throw new Error(`must be an amount of at least ${min}`);
+  }
+  return parsed;
+};
+
+const filePath = (value: unknown): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error('must be a file path');
+  }
+  return value;
+};
+
+const address = (value: unknown): string => {
+  if (!isAddress(value)) {
+    throw new Error('must be a 0x-prefixed address');
+  }
+  if (!hasValidChecksum(value)) {
+    throw new Error('has an invalid EIP-55 checksum');
+  }
+  return value.toLowerCase();
+};
+
+const logLevel = (value: unknown): LogLevel => {
+  if (!LOG_LEVELS.includes(value as LogLevel)) {
+    throw new Error(`must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  return value as LogLevel;
+};
+
+/**
+ * Parse allowed CORS origins from a list, or a comma-separated string (throws on invalid)
+ */
+const origins = (value: unknown): string[] => {
+  const list = typeof value === 'string'
+    ? value.split(',').map((origin) => origin.trim()).filter(Boolean)
+    : value;
+  if (
+    !Array.isArray(list)
+    || list.length === 0
+    || !list.every((origin) => typeof origin === 'string' && origin !== '')
+  ) {
+    throw new Error('must list at least one origin, or "*" to allow any');
+  }
+  return list;
+};
+
+/**
+ * Parse an asset symbol: 2 to 10 uppercase letters and digits, starting with a letter
+ */
+const symbol = (value: unknown): string => {
+  if (typeof value !== 'string' || !/^[A-Z][A-Z0-9]{1,9}$/.test(value)) {
+    throw new Error('must be 2 to 10 uppercase letters and digits, starting with a letter');
+  }
+  return value;
+};
+
+/**
+ * Parse extra assets from a list of { symbol, decimals, maxTransactionAmount,
+ * feeBase, feePerByte }, or comma-separated SYMBOL:decimals[:maxTransactionAmount]
+ * entries (throws on invalid)
+ */
+const assetList = (value: unknown): AssetConfig[] => {
+  const list = typeof value === 'string'
+    ? value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+      const [entrySymbol, decimals, maxTransactionAmount] = entry.split(':');
+      return { symbol: entrySymbol, decimals, maxTransactionAmount };
+    })
+    : value;
+  if (!Array.isArray(list)) {
+    throw new Error('must list assets as { symbol, decimals }, or SYMBOL:decimals entries');
+  }
+
+  const assets = list.map((entry, index): AssetConfig => {
+    const {
+      symbol: entrySymbol,
+      decimals,
+      maxTransactionAmount,
+      feeBase,
+      feePerByte,
+    } = entry ?? {};
+    try {
+      return {
+        symbol: symbol(entrySymbol),
+        decimals: integer(0, 36)(decimals),
+        ...(maxTransactionAmount !== undefined
+          ? { maxTransactionAmount: amount(1n)(maxTransactionAmount) }
+          : {}),
+        ...(feeBase !== undefined ? { feeBase: amount(0n)(feeBase) } : {}),
+        ...(feePerByte !== undefined ? { feePerByte: amount(0n)(feePerByte) } : {}),
+      };
+    } catch (error) {
+      throw new Error(`entry ${index + 1} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  const symbols = assets.map((asset) => asset.symbol);
+  const duplicate = symbols.find((entrySymbol, index) => symbols.indexOf(entrySymbol) !== index);
+  if (duplicate) {
+    throw new Error(`lists ${duplicate} more than once`);
+  }
+  return assets;
+};
+
+const DEFAULT_SPENDING_WINDOW = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse one field of an entry, naming it in the error (throws on invalid)
+ */
+const field = <T>(name: string, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new Error(`${name} ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Parse a list of addresses (throws on invalid)
+ */
+const addressList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('must be a list of addresses');
+  }
+  return value.map((entry, index) => {
+    try {
+      return address(entry);
+    } catch (error) {
+      throw new Error(`address ${index + 1} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+};
+
+/**
+ * Parse transfer policy rules from a list, or its JSON text in the
+ * environment (throws on invalid)
+ */
+const policyList = (value: unknown): PolicyRule[] => {
+  let list = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      throw new Error('must be a JSON list of policy rules');
+    }
+  }
+  if (!Array.isArray(list)) {
+    throw new Error('must list policy rules as { account, spendingLimit, allowedRecipients, deniedRecipients }');
+  }
+
+  return list.map((entry, index): PolicyRule => {
+    const {
+      account,
+      spendingLimit,
+      allowedRecipients,
+      deniedRecipients,
+    } = entry ?? {};
+    try {
+      if (
+        spendingLimit !== undefined
+        && (typeof spendingLimit !== 'object' || spendingLimit === null)
+      ) {
+        throw new Error('spendingLimit must be { amount, window, asset }');
+      }
+      return {
+        account: account === '*' ? account : field('account', () => address(account)),
+        ...(spendingLimit !== undefined
+          ? {
+            spendingLimit: field('spendingLimit', () => ({
+              ...(spendingLimit.asset !== undefined
+                ? { asset: field('asset', () => symbol(spendingLimit.asset)) }
+                : {}),
+              amount: field('amount', () => amount(0n)(spendingLimit.amount)),
+              window: field('window', () =>
+                integer(1)(spendingLimit.window ?? DEFAULT_SPENDING_WINDOW)),
+            })),
+          }
+          : {}),
+        ...(allowedRecipients !== undefined
+          ? { allowedRecipients: field('allowedRecipients', () => addressList(allowedRecipients)) }
+          : {}),
+        ...(deniedRecipients !== undefined
+          ? { deniedRecipients: field('deniedRecipients', () => addressList(deniedRecipients)) }
+          : {}),
+      };
+    } catch (error) {
+      throw new Error(`entry ${index + 1} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+};
+
+const SETTINGS: { [K in SettingKey]-?: SettingSpec<NonNullable<ServerConfig[K]>> } = {
+  port: { env: 'PORT', parse: integer(1, 65535) },
+  chainId: { env: 'CHAIN_ID', parse: integer(1) },
+  logLevel: { env: 'LOG_LEVEL', parse: logLevel },
+  corsOrigins: { env: 'CORS_ORIGINS', parse: origins },
+  symbol: { env: 'SYMBOL', parse: symbol },
+  decimals: { env: 'DECIMALS', parse: integer(0, 36) },
+  assets: { env: 'ASSETS', parse: assetList },
+  maxTransactionAmount: { env: 'MAX_TRANSACTION_AMOUNT', parse: amount(1n) },
+  maxBatchSize: { env: 'MAX_BATCH_SIZE', parse: integer(1, 1000) },
+  feeBase: { env: 'FEE_BASE', parse: amount(0n) },
+  feePerByte: { env: 'FEE_PER_BYTE', parse: amount(0n) },
+  feeRecipient: { env: 'FEE_RECIPIENT', parse: address },
+  policies: { env: 'POLICIES', parse: policyList },
+  clockSkewTolerance: { env: 'CLOCK_SKEW_TOLERANCE', parse: integer(0) },
+  shutdownTimeout: { env: 'SHUTDOWN_TIMEOUT', parse: integer(1) },
+  storageFile: { env: 'STORAGE_FILE', parse: filePath },
+  historyFile: { env: 'HISTORY_FILE', parse: filePath },
+  blocksFile: { env: 'BLOCKS_FILE', parse: filePath },
+  supplyFile: { env: 'SUPPLY_FILE', parse: filePath },
+  identityKeyFile: { env: 'IDENTITY_KEY_FILE', parse: filePath },
+  genesisFile: { env: 'GENESIS_FILE', parse: filePath },
+  adminAddress: { env: 'ADMIN_ADDRESS', parse: address },
+  faucetAmount: { env: 'FAUCET_AMOUNT', parse: amount(0n) },
+  faucetCooldown: { env: 'FAUCET_COOLDOWN', parse: integer(0) },
+};
+
+/**
+ * Read a JSON or YAML (by extension) settings object (throws on missing or invalid file)
+ */
+function readConfigFile(configFile: string): Record<string, unknown> {
+  const text = fs.readFileSync(configFile, 'utf8');
+  const parsed: unknown = /\.ya?ml$/i.test(configFile) ? yaml.load(text) : JSON.parse(text);
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('must contain an object of settings');
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Build the server configuration from defaults, the config file and environment
+ * variables, in increasing precedence (throws ConfigError listing every problem)
+ * The genesis allocation is either inline in the config file or read from genesisFile
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const problems: string[] = [];
+  const configFile = env.CONFIG_FILE
+    || CONFIG_FILE_CANDIDATES.find((candidate) => fs.existsSync(candidate));
+
+  const fileValues = ((): Record<string, unknown> => {
+    if (!configFile) return {};
+    try {
+      return readConfigFile(configFile);
+    } catch (error) {
+      problems.push(`${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+      return {};
+    }
+  })();
+
+  Object.keys(fileValues)
+    .filter((key) => key !== 'genesis' && !(key in SETTINGS))
+    .forEach((key) => problems.push(`${configFile}: unknown setting "${key}"`));
+
+  const settings: Partial<Record<SettingKey, unknown>> = {};
+  (Object.keys(SETTINGS) as SettingKey[]).forEach((key) => {
+    const { env: envName, parse } = SETTINGS[key];
+    const [source, value] = ((): [string, unknown] => {
+      if (env[envName]) return [envName, env[envName]];
+      if (key in fileValues) return [`${configFile}: ${key}`, fileValues[key]];
+      return [`default ${key}`, DEFAULTS[key]];
+    })();
+
+    if (value === undefined) return;
+    try {
+      settings[key] = parse(value);
+    } catch (error) {
+      problems.push(`${source} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  const assets = settings.assets as AssetConfig[] | undefined;
+  if (assets?.some((asset) => asset.symbol === settings.symbol)) {
+    problems.push(`assets must not list the default asset ${settings.symbol}`);
+  }
+
+  const fees = [settings.feeBase, settings.feePerByte, ...(assets ?? [])
+    .flatMap(({ feeBase, feePerByte }) => [feeBase, feePerByte])] as (bigint | undefined)[];
+  if (!settings.feeRecipient && fees.some((fee) => fee !== undefined && fee > 0n)) {
+    problems.push('feeRecipient must be set to charge fees');
+  }
+
+  const symbols = [settings.symbol, ...(assets ?? []).map((asset) => asset.symbol)];
+  (settings.policies as PolicyRule[] | undefined)?.forEach(({ spendingLimit }, index) => {
+    if (spendingLimit?.asset !== undefined && !symbols.includes(spendingLimit.asset)) {
+      problems.push(`policies entry ${index + 1} limits unknown asset ${spendingLimit.asset}`);
+    }
+  });
+
+  // GENESIS_FILE in the environment wins over an inline allocation
+  const inlineGenesis = env.GENESIS_FILE ? undefined : fileValues.genesis;
+  if (inlineGenesis !== undefined && 'genesisFile' in fileValues) {
+    problems.push(`${configFile}: set either genesis or genesisFile, not both`);
+  }
+  const genesisFile = inlineGenesis === undefined
+    ? (settings.genesisFile as string | undefined) ?? DEFAULT_GENESIS_FILE
+    : undefined;
+
+  const genesis = ((): Genesis | undefined => {
+    try {
+      return genesisFile
+        ? loadGenesis(genesisFile)
+        : parseGenesis(inlineGenesis, `${configFile}: genesis`);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  })();
+
+  if (problems.length > 0 || !genesis) {
+    throw new ConfigError(problems);
+  }
+
+  return {
+    ...(settings as Omit<ServerConfig, 'genesis' | 'genesisFile'>),
+    genesisFile,
+    genesis,
+  };
+}
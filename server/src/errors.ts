@@ -1,24 +1,13 @@
-import { ErrorCode, ErrorResponse } from './types';
+// Thrown by the shared protocol functions as well as by the server's own checks
+export { ValidationError } from '@ecdsa-node/protocol';
 
 /**
- * Custom error class for validation errors
+ * Startup error listing every problem found in the server configuration
  */
-export class ValidationError extends Error {
-  constructor(
-    public readonly code: ErrorCode,
-    message: string,
-    public readonly details?: unknown,
-  ) {
-    super(message);
-    this.name = 'ValidationError';
-    Object.setPrototypeOf(this, ValidationError.prototype);
-  }
-
-  toJSON(): ErrorResponse {
-    return {
-      code: this.code,
-      message: this.message,
-      details: this.details,
-    };
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'ConfigError';
+    Object.setPrototypeOf(this, ConfigError.prototype);
   }
 }
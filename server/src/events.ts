@@ -0,0 +1,77 @@
+import { Response } from 'express';
+import { logger } from './logger/logger';
+import { ServerEvents, ServerEventType } from './types';
+
+export interface EventHub {
+  subscribe(res: Response, addresses: string[]): void;
+  publish<T extends ServerEventType>(type: T, data: ServerEvents[T], addresses?: string[]): void;
+  getSubscriberCount(): number;
+  close(): void;
+}
+
+export interface EventHubOptions {
+  keepAliveInterval: number;
+}
+
+interface Subscriber {
+  res: Response;
+  addresses: Set<string>;
+}
+
+/**
+ * Create a hub that pushes server events to clients over Server-Sent Events
+ * Every subscriber receives events published for one of its addresses, and
+ * events published without addresses (new blocks). A comment line is written
+ * every `keepAliveInterval` milliseconds so proxies keep idle streams open.
+ */
+export function createEventHub(options: EventHubOptions): EventHub {
+  const { keepAliveInterval } = options;
+  const subscribers = new Set<Subscriber>();
+  let nextId = 1;
+
+  const subscribe = (res: Response, addresses: string[]): void => {
+    const subscriber: Subscriber = { res, addresses: new Set(addresses) };
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    subscribers.add(subscriber);
+    res.on('close', () => subscribers.delete(subscriber));
+
+    logger.debug(`Event subscriber added for ${addresses.length} addresses`);
+  };
+
+  const publish = <T extends ServerEventType>(
+    type: T,
+    data: ServerEvents[T],
+    addresses?: string[],
+  ): void => {
+    const frame = `id: ${nextId}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+    nextId += 1;
+
+    subscribers.forEach(({ res, addresses: subscribed }) => {
+      if (!addresses || addresses.some((address) => subscribed.has(address))) {
+        res.write(frame);
+      }
+    });
+  };
+
+  const getSubscriberCount = (): number => subscribers.size;
+
+  const timer = setInterval(() => {
+    subscribers.forEach(({ res }) => res.write(': keep-alive\n\n'));
+  }, keepAliveInterval);
+
+  const close = (): void => {
+    clearInterval(timer);
+    subscribers.forEach(({ res }) => res.end());
+    subscribers.clear();
+  };
+
+  return { subscribe, publish, getSubscriberCount, close };
+}
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import { hasValidChecksum, isAddress, parseBaseUnits } from '@ecdsa-node/protocol';
+import { AddressBalances } from './types';
+
+/**
+ * Starting balances of the default asset; other assets start without supply
+ */
+export interface Genesis {
+  balances: AddressBalances;
+}
+
+/**
+ * Validate a genesis allocation read from `source` (throws on invalid)
+ * Addresses must be 0x-prefixed hex, with a valid checksum when mixed-case,
+ * and balances amounts in base units, as integers or decimal strings.
+ * Addresses are lowercased.
+ */
+export function parseGenesis(value: unknown, source: string): Genesis {
+  const balances = (value as Partial<Genesis> | null)?.balances;
+
+  if (typeof balances !== 'object' || balances === null || Array.isArray(balances)) {
+    throw new Error(`Genesis in ${source} must contain a balances object`);
+  }
+
+  const normalized: AddressBalances = {};
+  Object.entries(balances).forEach(([address, balance]) => {
+    const invalid = new Error(`Invalid genesis allocation in ${source}: ${address} = ${balance}`);
+    if (!isAddress(address) || !hasValidChecksum(address)) {
+      throw invalid;
+    }
+    if (normalized[address.toLowerCase()] !== undefined) {
+      throw new Error(`Duplicate genesis address in ${source}: ${address}`);
+    }
+    try {
+      normalized[address.toLowerCase()] = parseBaseUnits(balance);
+    } catch {
+      throw invalid;
+    }
+  });
+
+  return { balances: normalized };
+}
+
+/**
+ * Read the genesis allocation from a JSON file (throws on missing or invalid file)
+ */
+export function loadGenesis(filePath: string): Genesis {
+  return parseGenesis(JSON.parse(fs.readFileSync(filePath, 'utf8')), filePath);
+}
+
+/**
+ * Sum all balances (pure function)
+ */
+export function sumBalances(balances: AddressBalances): bigint {
+  return Object.values(balances).reduce((total, balance) => total + balance, 0n);
+}
@@ -0,0 +1,87 @@
+import { getTransfers, normalizeHash } from '@ecdsa-node/protocol';
+import { logger } from './logger/logger';
+import { appendJournal, readJournal } from './journal';
+import { TransactionPage, TransactionRecord } from './types';
+
+export interface TransactionHistory {
+  append(entry: Omit<TransactionRecord, 'id'>): TransactionRecord;
+  getByHash(messageHash: string): TransactionRecord | undefined;
+  getByAddress(address: string, offset: number, limit: number): TransactionPage;
+  getByAddressSince(address: string, since: number): TransactionRecord[];
+  getAll(): readonly TransactionRecord[];
+}
+
+/**
+ * Create an append-only transaction history backed by a JSON Lines journal
+ */
+export function createTransactionHistory(filePath: string): TransactionHistory {
+  const records = readJournal<TransactionRecord>(filePath);
+  const byHash = new Map<string, TransactionRecord>();
+  const byAddress = new Map<string, TransactionRecord[]>();
+
+  const index = (record: TransactionRecord): void => {
+    byHash.set(normalizeHash(record.messageHash), record);
+
+    const addresses = new Set([
+      record.message.sender.toLowerCase(),
+      ...getTransfers(record.message).map(({ recipient }) => recipient.toLowerCase()),
+    ]);
+    addresses.forEach((address) => {
+      const entries = byAddress.get(address) ?? [];
+      entries.push(record);
+      byAddress.set(address, entries);
+    });
+  };
+
+  records.forEach(index);
+  logger.info(`Loaded ${records.length} transactions from ${filePath}`);
+
+  const append = (entry: Omit<TransactionRecord, 'id'>): TransactionRecord => {
+    const lastRecord = records[records.length - 1];
+    const record: TransactionRecord = { id: (lastRecord?.id ?? 0) + 1, ...entry };
+
+    appendJournal(filePath, record);
+    records.push(record);
+    index(record);
+
+    return record;
+  };
+
+  const getByHash = (messageHash: string): TransactionRecord | undefined =>
+    byHash.get(normalizeHash(messageHash));
+
+  const getByAddress = (address: string, offset: number, limit: number): TransactionPage => {
+    const matches = byAddress.get(address.toLowerCase()) ?? [];
+    const newestFirst = [...matches].reverse();
+
+    return {
+      transactions: newestFirst.slice(offset, offset + limit),
+      total: matches.length,
+      offset,
+      limit,
+    };
+  };
+
+  /**
+   * List the transactions of an address applied at or after `since`, oldest
+   * first; walks back from the newest so only the matches are visited
+   */
+  const getByAddressSince = (address: string, since: number): TransactionRecord[] => {
+    const matches = byAddress.get(address.toLowerCase()) ?? [];
+    let start = matches.length;
+    while (start > 0 && matches[start - 1].timestamp >= since) {
+      start -= 1;
+    }
+    return matches.slice(start);
+  };
+
+  const getAll = (): readonly TransactionRecord[] => records;
+
+  return {
+    append,
+    getByHash,
+    getByAddress,
+    getByAddressSince,
+    getAll,
+  };
+}
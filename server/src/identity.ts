@@ -0,0 +1,29 @@
+import fs from 'fs';
+import * as secp from '@noble/secp256k1';
+import { normalizePrivateKey, privateKeyToAddress } from '@ecdsa-node/protocol';
+import { logger } from './logger/logger';
+
+export interface ServerIdentity {
+  privateKey: string;
+  address: string;
+}
+
+/**
+ * Load the server's own secp256k1 key, which signs transaction receipts, from
+ * a file holding it as hex. A new key is generated and saved, readable by the
+ * owner only, when the file does not exist (throws on an invalid key)
+ */
+export function loadIdentity(filePath: string): ServerIdentity {
+  if (!fs.existsSync(filePath)) {
+    const generated = secp.etc.bytesToHex(secp.utils.randomSecretKey());
+    fs.writeFileSync(filePath, `${generated}\n`, { mode: 0o600, flag: 'wx' });
+    logger.info(`Generated a new identity key in ${filePath}`);
+  }
+
+  const privateKey = normalizePrivateKey(fs.readFileSync(filePath, 'utf8').trim());
+  if (!privateKey) {
+    throw new Error(`${filePath} does not contain a valid private key`);
+  }
+
+  return { privateKey, address: privateKeyToAddress(privateKey) };
+}
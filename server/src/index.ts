@@ -1,36 +1,385 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import crypto from 'crypto';
-import { keccak_256 } from '@noble/hashes/sha3.js';
-import * as secp from '@noble/secp256k1';
-import { verifySignatureAndGetAddress } from './crypto';
-import { SendRequestBody, ErrorCode, Balances, Nonces } from './types';
-import { ValidationError } from './errors';
-import { logger } from './logger/logger';
+import {
+  computeFee,
+  createDomain,
+  createReceipt,
+  getDuplicateRecipients,
+  getTransfers,
+  hashAdminAction,
+  hashTransactionMessage,
+  normalizeAddress,
+  parseBaseUnits,
+  parseMessageHash,
+  signatureId,
+  SignatureEncoding,
+  signStateCommitment,
+  SignedReceipt,
+  signReceipt,
+  toChecksumAddress,
+  verifySignatureAndGetAddress,
+} from '@ecdsa-node/protocol';
+import {
+  SendRequestBody,
+  AccountBalances,
+  AdminAction,
+  AssetBalance,
+  AssetSupply,
+  AdminRequestBody,
+  ErrorCode,
+  LedgerTransfer,
+  Nonces,
+  MultisigAccount,
+  MultisigAccountInfo,
+  MultisigAccounts,
+  TransactionMessage,
+  TransactionRecord,
+  MessageVersion,
+  SupplyEvent,
+  PendingTransaction,
+  SignedStateCommitment,
+  StateCommitment,
+  AccountProof,
+} from './types';
+import { ConfigError, ValidationError } from './errors';
+import { logger, setLogLevel } from './logger/logger';
 import { LogContext, withLogContext } from './logger/context';
+import { createStateStore } from './storage';
+import { createTransactionHistory } from './history';
+import { createBlockchain } from './chain';
+import { createMempool } from './mempool';
+import { computeMultisigAddress, normalizeMultisigAccount } from './multisig';
+import { Genesis, loadGenesis, sumBalances } from './genesis';
+import { loadConfig, ServerConfig } from './config';
+import { createSupplyJournal } from './supply';
+import { createRateLimiter } from './ratelimit';
+import { createEventHub } from './events';
+import { loadIdentity, ServerIdentity } from './identity';
+import { createStateTree } from './statetree';
+import { createAssetRegistry, formatAsset, RegisteredAsset } from './assets';
+import { createPolicyEngine } from './policy';
 
-const DEFAULT_PORT = 3042;
-const MAX_TRANSACTION_AMOUNT = 1000000;
-const GRACE_SHUTDOWN_TIMEOUT = 10000;
+const MAX_BLOCK_SIZE = 10;
+const BLOCK_INTERVAL = 5000;
+const MAX_NONCE_GAP = 16;
+const MEMPOOL_TTL = 10 * 60 * 1000;
+const MEMPOOL_SWEEP_INTERVAL = 30 * 1000;
+const MAX_TRANSACTION_AGE = 60 * 60 * 1000;
+const MAX_VALIDITY_PERIOD = 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const EVENT_KEEP_ALIVE_INTERVAL = 15 * 1000;
+const MAX_EVENT_SUBSCRIBERS = 1000;
+const MAX_EVENT_ADDRESSES = 20;
 
-const getPort = (): number => parseInt(process.env.PORT || String(DEFAULT_PORT), 10);
+/**
+ * Load the server configuration, or log every problem and exit
+ */
+function loadServerConfig(): ServerConfig {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      error.problems.forEach((problem) => logger.error(`Invalid configuration: ${problem}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Settings from the config file and environment, validated at startup
+ */
+const config = loadServerConfig();
+setLogLevel(config.logLevel);
+
+/**
+ * Chain ID of this deployment, part of every signed message so a transaction
+ * signed for one server cannot be replayed against another
+ */
+const { chainId } = config;
+
+/**
+ * Address of the key that signs admin actions; the admin routes are disabled
+ * when ADMIN_ADDRESS is not set
+ */
+const { adminAddress } = config;
+
+/**
+ * Base units handed out per faucet request; 0 disables the faucet
+ */
+const { faucetAmount } = config;
+
+/**
+ * Account credited with transaction fees; fees are not charged when
+ * FEE_RECIPIENT is not set
+ */
+const { feeRecipient } = config;
+
+/**
+ * Initial balances of the default asset, used for a fresh ledger and restored
+ * by an admin reset
+ */
+const { genesis } = config;
+
+/**
+ * The default asset and the extra assets configured in ASSETS
+ */
+const assets = createAssetRegistry(config);
+const { defaultAsset } = assets;
+
+/**
+ * Load the key that signs transaction receipts, or log the problem and exit
+ */
+function loadServerIdentity(): ServerIdentity {
+  try {
+    return loadIdentity(config.identityKeyFile);
+  } catch (error) {
+    logger.error(`Invalid identity key: ${error instanceof Error ? error.message : String(error)}`);
+    return process.exit(1);
+  }
+}
+
+/**
+ * The server's own key; its address is published by GET /info so receipts
+ * can be verified offline
+ */
+const identity = loadServerIdentity();
+
+/**
+ * Persistent storage for account balances (per asset) and nonces
+ * Loaded from disk on startup, saved with an atomic write before each change is acknowledged
+ */
+const store = createStateStore(
+  config.storageFile,
+  {
+    balances: { [defaultAsset]: genesis.balances },
+    nonces: {} as Nonces,
+    multisig: {} as MultisigAccounts,
+    totalSupply: { [defaultAsset]: sumBalances(genesis.balances) },
+    frozen: [],
+    freezeSignatures: [],
+  },
+  defaultAsset,
+);
+const { state } = store;
+
+/**
+ * Balance of an address in an asset, the default one unless given
+ */
+const getBalance = (address: string, asset = defaultAsset): bigint =>
+  state.balances[asset]?.[address] ?? 0n;
+
+const setBalance = (address: string, asset: string, balance: bigint): void => {
+  state.balances[asset] = { ...state.balances[asset], [address]: balance };
+};
+
+const getTotalSupply = (asset: string): bigint => state.totalSupply[asset] ?? 0n;
+
+/**
+ * Non-zero balances of an address in assets other than the default one,
+ * which its state leaf commits to besides the default balance
+ */
+const getOtherAssetBalances = (address: string): AssetBalance[] => Object.keys(state.balances)
+  .filter((asset) => asset !== defaultAsset && getBalance(address, asset) !== 0n)
+  .map((asset) => ({ asset, balance: String(getBalance(address, asset)) }));
+
+/**
+ * Every address holding a balance in some asset
+ */
+const getAccountAddresses = (): string[] =>
+  [...new Set(Object.values(state.balances).flatMap((balances) => Object.keys(balances)))];
+
+Object.keys(state.balances)
+  .filter((asset) => !assets.get(asset))
+  .forEach((asset) => logger.warn(`Storage holds balances of ${asset}, which is not a registered asset`));
+if (feeRecipient && state.frozen.includes(feeRecipient)) {
+  logger.warn(`Fee recipient ${feeRecipient} is frozen; transfers paying a fee are refused until it is unfrozen`);
+}
+
+/**
+ * Append-only log of every change to the total supply of each asset, starting
+ * with the allocation the ledger was created from
+ */
+const supply = createSupplyJournal(config.supplyFile, defaultAsset);
+if (supply.getAll().length === 0) {
+  Object.keys(state.totalSupply).forEach((asset) => supply.append({
+    type: 'genesis',
+    asset,
+    amount: String(getTotalSupply(asset)),
+    totalSupply: String(getTotalSupply(asset)),
+  }));
+}
+Object.keys(state.totalSupply).forEach((asset) => {
+  const sum = sumBalances(state.balances[asset] ?? {});
+  if (sum !== getTotalSupply(asset)) {
+    logger.error(`Total ${asset} supply ${getTotalSupply(asset)} does not match the sum of balances ${sum}`);
+  }
+});
+
+/**
+ * Append-only log of every accepted transaction
+ */
+const history = createTransactionHistory(config.historyFile);
+
+/**
+ * Spending limits, recipient lists and admin freezes every transfer must pass
+ */
+const policy = createPolicyEngine({
+  rules: config.policies,
+  defaultAsset,
+  history,
+  feeRecipient,
+  isFrozen: (address) => state.frozen.includes(address),
+});
+
+/**
+ * Server-Sent Events streams of clients following addresses and new blocks
+ */
+const events = createEventHub({ keepAliveInterval: EVENT_KEEP_ALIVE_INTERVAL });
+
+/**
+ * Sparse Merkle tree over every account's balances and nonce
+ */
+const stateTree = createStateTree(
+  [...new Set([...getAccountAddresses(), ...Object.keys(state.nonces)])]
+    .map((address) => ({
+      address,
+      balance: getBalance(address),
+      nonce: state.nonces[address] ?? 0,
+      assets: getOtherAssetBalances(address),
+    })),
+);
+
+/**
+ * Commit to the current tree root; the version counts every state change so
+ * far (accepted transactions plus supply changes), so it survives restarts
+ */
+const createStateCommitment = (): StateCommitment => ({
+  chainId,
+  root: stateTree.getRoot(),
+  version: history.getAll().length + supply.getAll().length,
+  timestamp: Date.now(),
+});
+
+let stateCommitment = createStateCommitment();
+let signedStateCommitment: Promise<SignedStateCommitment> | undefined;
+
+/**
+ * Sign the current state commitment, once per version
+ */
+const getSignedStateCommitment = (): Promise<SignedStateCommitment> => {
+  if (!signedStateCommitment) {
+    signedStateCommitment = signStateCommitment(stateCommitment, identity.privateKey);
+  }
+  return signedStateCommitment;
+};
+
+/**
+ * Update the state tree for accounts whose balance (in one of `changedAssets`)
+ * or nonce changed, commit to the new root and push the new balances and root
+ * to subscribers
+ */
+const commitAccounts = (addresses: string[], changedAssets: string[]): void => {
+  const changed = [...new Set(addresses)];
+  changed.forEach((address) => stateTree.update(
+    address,
+    getBalance(address),
+    state.nonces[address] ?? 0,
+    getOtherAssetBalances(address),
+  ));
+
+  stateCommitment = createStateCommitment();
+  signedStateCommitment = undefined;
+
+  changed.forEach((address) => changedAssets.forEach((asset) => events.publish(
+    'balance',
+    {
+      address: toChecksumAddress(address),
+      asset,
+      balance: String(getBalance(address, asset)),
+    },
+    [address],
+  )));
+  events.publish('state', stateCommitment);
+};
 
 /**
- * In-memory storage for account balances and nonces
- * This is ephemeral - data is lost when the server restarts
+ * Tell the sender's subscribers that a transaction was refused: a queued one
+ * dropped from the mempool (`pending`), or one refused by POST /send
  */
-const state = {
-  balances: {
-    '0x57a7a0a4c0911775e0edd91b88c7f68f5aac84fd': 100,
-    '0x8cc93c04af25707b5ad002f16043d5f7a6ee699b': 50,
-    '0x17a549927a1b913d046d4300a2029195aa399b6f': 75,
-  } as Balances,
-  nonces: {} as Nonces,
+const publishRejected = (
+  { message: { sender, nonce }, messageHash }: Pick<PendingTransaction, 'message' | 'messageHash'>,
+  { code, message }: ValidationError,
+  pending: boolean,
+): void => {
+  events.publish('rejected', {
+    address: toChecksumAddress(sender),
+    messageHash,
+    nonce,
+    pending,
+    code,
+    message,
+  }, [sender.toLowerCase()]);
 };
 
+/**
+ * Hash-linked blocks batching the accepted transactions
+ */
+const chain = createBlockchain({
+  filePath: config.blocksFile,
+  maxBlockSize: MAX_BLOCK_SIZE,
+  blockInterval: BLOCK_INTERVAL,
+  knownTransactions: history.getAll().map((record) => record.messageHash),
+  onSeal: (block) => events.publish('block', block),
+});
+
+const getSignatureEncoding = (version: MessageVersion | undefined): SignatureEncoding =>
+  (version === MessageVersion.PERSONAL_SIGN ? 'rsv' : 'recovered');
+
+/**
+ * All signatures carried by a request or record: the owners' signatures of a
+ * multisig transfer, or the single sender signature
+ */
+const getSignatures = (
+  { signature, signatures }: Pick<SendRequestBody, 'signature' | 'signatures'>,
+): string[] => signatures ?? (signature ? [signature] : []);
+
+/**
+ * Encoding-independent ids of every accepted signature, so the same
+ * authorization cannot be submitted again in a different encoding
+ */
+const seenSignatures = new Set([
+  ...history.getAll().flatMap((record) =>
+    getSignatures(record).map((signature) =>
+      signatureId(signature, getSignatureEncoding(record.message.version)))),
+  ...supply.getAll().flatMap(({ signature }) => (signature ? [signatureId(signature)] : [])),
+  ...state.freezeSignatures,
+]);
+
+/**
+ * Signed transactions waiting for earlier nonces from the same sender
+ * Kept in memory only - pending transactions are dropped when the server restarts
+ */
+const mempool = createMempool({
+  ttl: MEMPOOL_TTL,
+  maxPerSender: MAX_NONCE_GAP,
+  sweepInterval: MEMPOOL_SWEEP_INTERVAL,
+  onExpire: (entry) => publishRejected(entry, new ValidationError(
+    ErrorCode.TRANSACTION_EXPIRED,
+    'Pending transaction expired before its nonce came up',
+  ), true),
+});
+
+/**
+ * One faucet payout per address and per client IP within the cooldown
+ */
+const faucetLimiter = createRateLimiter(config.faucetCooldown);
+
 const app = express();
 
-app.use(cors());
+app.use(cors({ origin: config.corsOrigins.includes('*') ? '*' : config.corsOrigins }));
 app.use(express.json());
 
 // Add logging context to all requests
@@ -50,196 +399,1327 @@ app.use((req, res, next) => {
 });
 
 /**
- * Validate Ethereum address format (pure function)
+ * Validate transaction addresses, including mixed-case checksums (throws on invalid)
+ */
+function validateAddresses(sender: string, recipient: string): void {
+  const from = normalizeAddress(sender, 'sender address');
+  const to = normalizeAddress(recipient, 'recipient address');
+
+  if (from === to) {
+    throw new ValidationError(ErrorCode.SELF_TRANSFER, 'Cannot transfer to yourself');
+  }
+}
+
+/**
+ * Legs of a validated message with recipients in their lowercase ledger form
+ * and amounts as bigint. The message itself keeps the legs as signed.
+ */
+function getLedgerTransfers(message: TransactionMessage): LedgerTransfer[] {
+  return getTransfers(message).map(({ recipient, amount }) =>
+    ({ recipient: recipient.toLowerCase(), amount: BigInt(amount) }));
+}
+
+/**
+ * Owners and threshold of a multisig account as returned by the API, with checksummed addresses
  */
-function isValidAddress(address: string): boolean {
-  if (!address.startsWith('0x')) return false;
-  const cleanAddress = address.slice(2);
-  return /^[0-9a-fA-F]{40}$/.test(cleanAddress);
+function formatMultisigAccount(address: string, account: MultisigAccount): MultisigAccountInfo {
+  return {
+    address: toChecksumAddress(address),
+    owners: account.owners.map(toChecksumAddress),
+    threshold: account.threshold,
+  };
 }
 
 /**
- * Validate single address (throws on invalid)
+ * Parse paging query parameters (throws on invalid)
  */
-function validateAddress(address: string): void {
-  if (!isValidAddress(address)) {
-    throw new ValidationError(ErrorCode.INVALID_ADDRESS, 'Invalid address format');
+function parsePagination(query: Request['query']): { offset: number; limit: number } {
+  const parse = (value: unknown, fallback: number): number => {
+    if (value === undefined) return fallback;
+    return typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  };
+
+  const offset = parse(query.offset, 0);
+  const limit = parse(query.limit, DEFAULT_PAGE_SIZE);
+
+  if (Number.isNaN(offset) || Number.isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ValidationError(
+      ErrorCode.INVALID_PAGINATION,
+      `Invalid pagination: offset must be a non-negative integer and limit between 1 and ${MAX_PAGE_SIZE}`,
+      { offset: query.offset, limit: query.limit },
+    );
   }
+
+  return { offset, limit };
 }
 
 /**
- * Validate transaction addresses (throws on invalid)
+ * Parse the repeatable `address` query parameter of GET /events (throws on invalid)
  */
-function validateAddresses(sender: string, recipient: string): void {
-  if (!isValidAddress(sender)) {
-    throw new ValidationError(ErrorCode.INVALID_ADDRESS, 'Invalid sender address format');
+function parseEventAddresses(query: Request['query']): string[] {
+  const { address = [] } = query;
+  const addresses = Array.isArray(address) ? address : [address];
+
+  if (addresses.length > MAX_EVENT_ADDRESSES) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ADDRESS,
+      `Too many addresses (max ${MAX_EVENT_ADDRESSES})`,
+      { received: addresses.length, max: MAX_EVENT_ADDRESSES },
+    );
   }
 
-  if (!isValidAddress(recipient)) {
-    throw new ValidationError(ErrorCode.INVALID_ADDRESS, 'Invalid recipient address format');
+  return addresses.map((address) => normalizeAddress(address));
+}
+
+/**
+ * Validate a transaction amount, given in base units of the asset as a
+ * decimal string (throws on invalid)
+ */
+function validateAmount(amount: unknown, asset: RegisteredAsset): bigint {
+  let value: bigint | undefined;
+  if (typeof amount === 'string') {
+    try {
+      value = parseBaseUnits(amount);
+    } catch {
+      value = undefined;
+    }
   }
 
-  if (sender.toLowerCase() === recipient.toLowerCase()) {
-    throw new ValidationError(ErrorCode.SELF_TRANSFER, 'Cannot transfer to yourself');
+  if (value === undefined || value <= 0n || value > asset.maxTransactionAmount) {
+    throw new ValidationError(
+      ErrorCode.INVALID_AMOUNT,
+      `Invalid amount: must be a positive integer string of ${asset.symbol} base units up to ${asset.maxTransactionAmount}`,
+      { received: amount, asset: asset.symbol },
+    );
   }
+  return value;
 }
 
 /**
- * Validate transaction amount (throws on invalid)
+ * Validate the fee a message carries against its asset's fee schedule (throws
+ * on invalid); must run once the timestamps are validated
+ * Returns the fee in base units, 0 for a message without one
  */
-function validateAmount(amount: number): void {
-  if (!Number.isInteger(amount) || amount <= 0 || amount > MAX_TRANSACTION_AMOUNT) {
+function validateFee(message: TransactionMessage, asset: RegisteredAsset): bigint {
+  const required = computeFee(message, {
+    base: String(asset.fee.base),
+    perByte: String(asset.fee.perByte),
+  });
+  let value: bigint | undefined = message.fee === undefined ? 0n : undefined;
+  if (typeof message.fee === 'string') {
+    try {
+      value = parseBaseUnits(message.fee);
+    } catch {
+      value = undefined;
+    }
+  }
+
+  if (value === undefined || value < required || (value > 0n && !feeRecipient)) {
     throw new ValidationError(
-      ErrorCode.INVALID_AMOUNT,
-      'Invalid amount: must be a positive integer less than 1,000,000',
+      ErrorCode.INVALID_FEE,
+      feeRecipient
+        ? `Invalid fee: must be an integer string of at least ${required} ${asset.symbol} base units`
+        : 'Invalid fee: this server does not charge fees',
+      { received: message.fee, required: String(required), asset: asset.symbol },
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate the recipients and amounts of every leg of a message (throws on invalid)
+ * Batches must be signed as EIP-712 or personal_sign, not legacy JSON, and
+ * name each recipient once
+ * Returns the validated legs with lowercase recipients
+ */
+function validateTransfers(message: TransactionMessage, asset: RegisteredAsset): LedgerTransfer[] {
+  if (message.transfers !== undefined) {
+    if (
+      !Array.isArray(message.transfers)
+      || message.transfers.length === 0
+      || message.transfers.length > config.maxBatchSize
+      || !message.transfers.every((entry) => typeof entry === 'object' && entry !== null)
+      || message.recipient !== undefined
+      || message.amount !== undefined
+    ) {
+      throw new ValidationError(
+        ErrorCode.INVALID_BATCH,
+        `Invalid batch: transfers must list 1 to ${config.maxBatchSize} entries, without a top-level recipient or amount`,
+        { maxBatchSize: config.maxBatchSize },
+      );
+    }
+
+    if (
+      message.version !== MessageVersion.EIP712
+      && message.version !== MessageVersion.PERSONAL_SIGN
+    ) {
+      throw new ValidationError(
+        ErrorCode.UNSUPPORTED_VERSION,
+        'Batch transfers must be signed as EIP-712 (version 2) or personal_sign (version 3)',
+        { supported: [MessageVersion.EIP712, MessageVersion.PERSONAL_SIGN] },
+      );
+    }
+  }
+
+  getTransfers(message).forEach(({ recipient, amount }) => {
+    validateAddresses(message.sender, recipient);
+    validateAmount(amount, asset);
+  });
+
+  const duplicates = getDuplicateRecipients(getTransfers(message));
+  if (duplicates.length > 0) {
+    throw new ValidationError(
+      ErrorCode.INVALID_BATCH,
+      `Invalid batch: ${toChecksumAddress(duplicates[0])} is listed more than once`,
+      { duplicates: duplicates.map(toChecksumAddress) },
     );
   }
+
+  return getLedgerTransfers(message);
 }
 
 /**
  * Validate nonce (throws on invalid)
+ * Returns true when the nonce is the next one to execute, false when it is a
+ * future nonce that has to wait in the mempool
  */
-function validateNonce(sender: string, nonce: number): void {
+function validateNonce(sender: string, nonce: number): boolean {
   const currentNonce = state.nonces[sender] ?? 0;
+  const expected = currentNonce + 1;
 
-  if (nonce !== currentNonce + 1) {
+  if (!Number.isInteger(nonce) || nonce < expected || nonce > currentNonce + MAX_NONCE_GAP) {
     throw new ValidationError(
       ErrorCode.INVALID_NONCE,
-      `Invalid nonce: expected ${currentNonce + 1}, got ${nonce}`,
-      { expected: currentNonce + 1, received: nonce },
+      `Invalid nonce: expected ${expected} to ${currentNonce + MAX_NONCE_GAP}, got ${nonce}`,
+      { expected, maxAhead: MAX_NONCE_GAP, received: nonce },
+    );
+  }
+
+  return nonce === expected;
+}
+
+/**
+ * Validate that a message was signed for this deployment (throws on mismatch)
+ */
+function validateChainId(messageChainId: unknown): void {
+  if (messageChainId !== chainId) {
+    throw new ValidationError(
+      ErrorCode.INVALID_CHAIN_ID,
+      `Invalid chain ID: expected ${chainId}, got ${messageChainId}`,
+      { expected: chainId, received: messageChainId },
     );
   }
 }
 
 /**
- * Validate message hash (throws on invalid)
+ * Validate the issued-at timestamp and optional validUntil (throws on invalid or expired)
+ * Messages without validUntil expire MAX_TRANSACTION_AGE after being issued.
+ * Comparisons with the server clock allow for the configured clock skew.
+ * Returns the time (ms) after which the transaction must no longer be applied
  */
-function validateMessageHash(message: object, messageHash: string): void {
-  const messageString = JSON.stringify(message);
-  const messageBytes = new TextEncoder().encode(messageString);
-  const computedHash = secp.etc.bytesToHex(keccak_256(messageBytes));
+function validateTimestamps(timestamp: unknown, validUntil: unknown): number {
+  const now = Date.now();
+  const tolerance = config.clockSkewTolerance;
+  const isTime = (value: unknown): value is number =>
+    Number.isSafeInteger(value) && (value as number) >= 0;
 
-  if (computedHash !== messageHash) {
+  if (!isTime(timestamp)) {
     throw new ValidationError(
-      ErrorCode.INVALID_HASH,
-      'Invalid message hash - message may have been tampered with',
+      ErrorCode.INVALID_TIMESTAMP,
+      'Invalid timestamp: must be milliseconds since the Unix epoch',
+      { timestamp },
+    );
+  }
+
+  if (validUntil !== undefined && (
+    !isTime(validUntil)
+    || validUntil <= timestamp
+    || validUntil - timestamp > MAX_VALIDITY_PERIOD
+  )) {
+    throw new ValidationError(
+      ErrorCode.INVALID_TIMESTAMP,
+      'Invalid validUntil: must be after the timestamp and at most 24 hours later',
+      { timestamp, validUntil, maxValidityPeriod: MAX_VALIDITY_PERIOD },
+    );
+  }
+
+  if (timestamp > now + tolerance) {
+    throw new ValidationError(
+      ErrorCode.INVALID_TIMESTAMP,
+      'Invalid timestamp: transaction is issued in the future',
+      { timestamp, serverTime: now, tolerance },
+    );
+  }
+
+  const expiresAt = validUntil ?? timestamp + MAX_TRANSACTION_AGE;
+  if (expiresAt + tolerance < now) {
+    throw new ValidationError(
+      ErrorCode.TRANSACTION_EXPIRED,
+      'Transaction has expired',
+      { expiresAt, serverTime: now, tolerance },
     );
   }
+
+  return expiresAt + tolerance;
 }
 
 /**
- * Validate signature (throws on invalid)
+ * Validate message version (throws on unsupported)
  */
-function validateSignature(sender: string, messageHash: string, signature: string): void {
-  const recoveredAddress = verifySignatureAndGetAddress(messageHash, signature);
-  if (recoveredAddress.toLowerCase() !== sender.toLowerCase()) {
+function validateVersion(version: unknown): void {
+  if (version === undefined || version === MessageVersion.LEGACY_JSON) {
+    logger.warn('Deprecated JSON message signing used, clients should switch to EIP-712 (version 2)');
+    return;
+  }
+
+  if (version !== MessageVersion.EIP712 && version !== MessageVersion.PERSONAL_SIGN) {
     throw new ValidationError(
-      ErrorCode.INVALID_SIGNATURE,
-      'Invalid signature - authentication failed',
-      { expected: sender, recovered: recoveredAddress },
+      ErrorCode.UNSUPPORTED_VERSION,
+      `Unsupported message version: ${version}`,
+      {
+        supported: [
+          MessageVersion.LEGACY_JSON,
+          MessageVersion.EIP712,
+          MessageVersion.PERSONAL_SIGN,
+        ],
+      },
     );
   }
 }
 
 /**
- * Process transaction (throws on insufficient funds, otherwise updates state)
+ * Validate message hash against the digest computed for the message version
+ * Returns the computed digest (throws on a malformed hash or a mismatch)
  */
-function processTransaction(
-  sender: string,
-  recipient: string,
-  amount: number,
-  nonce: number,
-): void {
-  const senderBalance = state.balances[sender] ?? 0;
+function validateMessageHash(message: TransactionMessage, messageHash: unknown): string {
+  const receivedHash = parseMessageHash(messageHash);
+  const computedHash = hashTransactionMessage(message);
 
-  if (senderBalance < amount) {
+  if (computedHash !== receivedHash) {
     throw new ValidationError(
-      ErrorCode.INSUFFICIENT_FUNDS,
-      'Not enough funds',
-      { required: amount, available: senderBalance },
+      ErrorCode.INVALID_HASH,
+      'Invalid message hash - message may have been tampered with',
     );
   }
 
-  // Update balances and nonce
-  state.balances[sender] = senderBalance - amount;
-  state.balances[recipient] = (state.balances[recipient] ?? 0) + amount;
-  state.nonces[sender] = nonce;
+  return computedHash;
 }
 
 /**
- * Get current nonce for an address
+ * Recover the signer of the computed message digest (throws on invalid)
  */
-app.get('/nonce/:address', (req: Request, res: Response, next: NextFunction) => {
-  const { address } = req.params;
-
+function recoverSigner(digest: string, signature: string, encoding: SignatureEncoding): string {
   try {
-    validateAddress(address);
-
-    const nonce = state.nonces[address] ?? 0;
-    logger.debug(`Nonce retrieved: ${nonce}`);
-    res.send({ nonce });
+    return verifySignatureAndGetAddress(digest, signature, encoding);
   } catch (error) {
-    next(error);
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError(
+      ErrorCode.INVALID_SIGNATURE,
+      `Invalid signature - ${error instanceof Error ? error.message : 'recovery failed'}`,
+    );
   }
-});
+}
 
 /**
- * Get balance for an address
+ * Check that a signature has not been accepted before (throws on reuse)
  */
-app.get('/balance/:address', (req: Request, res: Response, next: NextFunction) => {
-  const { address } = req.params;
+function validateUnusedSignature(signature: string, encoding: SignatureEncoding): void {
+  if (seenSignatures.has(signatureId(signature, encoding))) {
+    throw new ValidationError(
+      ErrorCode.DUPLICATE_SIGNATURE,
+      'Signature has already been used',
+    );
+  }
+}
 
-  try {
-    validateAddress(address);
+/**
+ * Validate signature over the computed message digest (throws on invalid)
+ * personal_sign messages carry a wallet-style r‖s‖v signature
+ */
+function validateSignature(
+  sender: string,
+  digest: string,
+  signature: string | undefined,
+  version: MessageVersion | undefined,
+): void {
+  if (typeof signature !== 'string') {
+    throw new ValidationError(ErrorCode.INVALID_SIGNATURE, 'Missing required field: signature');
+  }
 
-    const balance = state.balances[address] ?? 0;
-    logger.debug(`Balance retrieved: ${balance}`);
-    res.send({ balance });
-  } catch (error) {
-    next(error);
+  const encoding = getSignatureEncoding(version);
+
+  const recoveredAddress = recoverSigner(digest, signature, encoding);
+  if (recoveredAddress.toLowerCase() !== sender.toLowerCase()) {
+    throw new ValidationError(
+      ErrorCode.INVALID_SIGNATURE,
+      'Invalid signature - authentication failed',
+      { expected: sender, recovered: recoveredAddress },
+    );
   }
-});
+
+  validateUnusedSignature(signature, encoding);
+}
 
 /**
- * Process a signed transaction
+ * Validate the owners' signatures of a multisig transfer (throws on invalid)
+ * Every signature must come from a different owner, and at least `threshold`
+ * owners must have signed
  */
-app.post('/send', (req: Request<object, object, SendRequestBody>, res: Response, next: NextFunction) => {
-  const { message, signature, messageHash } = req.body;
-
-  if (!message || !signature || !messageHash) {
-    next(
-      new ValidationError(
-        ErrorCode.INVALID_SIGNATURE,
-        'Missing required fields: message, signature, or messageHash',
-      ),
+function validateMultisigSignatures(
+  account: MultisigAccount,
+  digest: string,
+  signatures: unknown,
+  version: MessageVersion | undefined,
+): void {
+  if (
+    !Array.isArray(signatures)
+    || signatures.length === 0
+    || !signatures.every((signature) => typeof signature === 'string')
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_SIGNATURE,
+      'Multisig transfers must include a non-empty signatures array',
     );
-    return;
   }
 
-  const { sender, recipient, amount, nonce } = message;
+  const encoding = getSignatureEncoding(version);
+  const signers = new Set<string>();
 
-  try {
-    logger.debug('Validating transaction');
+  signatures.forEach((signature: string) => {
+    const signer = recoverSigner(digest, signature, encoding).toLowerCase();
+
+    if (!account.owners.includes(signer)) {
+      throw new ValidationError(
+        ErrorCode.INVALID_SIGNATURE,
+        'Invalid signature - signer is not an owner of the multisig account',
+        { signer },
+      );
+    }
+    if (signers.has(signer)) {
+      throw new ValidationError(
+        ErrorCode.DUPLICATE_SIGNATURE,
+        'Owner has signed more than once',
+        { signer },
+      );
+    }
 
-    validateAddresses(sender, recipient);
-    validateAmount(amount);
-    validateNonce(sender, nonce);
-    validateMessageHash(message, messageHash);
-    validateSignature(sender, messageHash, signature);
+    validateUnusedSignature(signature, encoding);
+    signers.add(signer);
+  });
 
-    logger.debug('Processing transaction');
-    processTransaction(sender, recipient, amount, nonce);
+  if (signers.size < account.threshold) {
+    throw new ValidationError(
+      ErrorCode.INSUFFICIENT_SIGNATURES,
+      `Not enough signatures: ${account.threshold} of ${account.owners.length} owners must sign, got ${signers.size}`,
+      { required: account.threshold, received: signers.size },
+    );
+  }
+}
 
-    logger.info(`Transaction successful: ${sender} → ${recipient} (${amount})`);
+/**
+ * Apply a change to the ledger and write it to storage.json before it is
+ * acknowledged, so a crash cannot roll back what a response reported
+ * The change is undone in memory when it throws or the write fails. Only the
+ * top-level records are copied, as balances are replaced per asset, never edited.
+ */
+function saveChange<T>(change: () => T): T {
+  const previous = {
+    balances: { ...state.balances },
+    nonces: { ...state.nonces },
+    multisig: { ...state.multisig },
+    totalSupply: { ...state.totalSupply },
+    frozen: state.frozen,
+    freezeSignatures: state.freezeSignatures,
+  };
 
-    res.send({
-      balance: state.balances[sender],
-      newNonce: nonce,
-      recipient: {
-        address: recipient,
-        newBalance: state.balances[recipient],
-      },
-    });
+  try {
+    const result = change();
+    store.flushNow();
+    return result;
+  } catch (error) {
+    Object.assign(state, previous);
+    throw error;
+  }
+}
+
+/**
+ * Process transaction (throws on insufficient funds, otherwise updates state)
+ * The summed amount of all legs plus the fee is checked first, so a batch is
+ * applied all-or-nothing
+ */
+function processTransaction(
+  sender: string,
+  asset: string,
+  transfers: LedgerTransfer[],
+  nonce: number,
+  fee: bigint,
+): void {
+  const senderBalance = getBalance(sender, asset);
+  const total = transfers.reduce((sum, { amount }) => sum + amount, 0n) + fee;
+
+  if (senderBalance < total) {
+    throw new ValidationError(
+      ErrorCode.INSUFFICIENT_FUNDS,
+      'Not enough funds',
+      {
+        asset,
+        required: String(total),
+        fee: String(fee),
+        available: String(senderBalance),
+      },
+    );
+  }
+
+  // Update balances and nonce
+  setBalance(sender, asset, senderBalance - total);
+  transfers.forEach(({ recipient, amount }) => {
+    setBalance(recipient, asset, getBalance(recipient, asset) + amount);
+  });
+  if (fee > 0n && feeRecipient) {
+    setBalance(feeRecipient, asset, getBalance(feeRecipient, asset) + fee);
+  }
+  state.nonces[sender] = nonce;
+}
+
+/**
+ * Apply a validated transaction and record it (throws on insufficient funds)
+ * The new balances and nonce are saved before the transaction is journaled, so
+ * the history never holds a transfer the ledger has rolled back
+ */
+function applyTransaction(request: SendRequestBody): TransactionRecord {
+  const {
+    message,
+    signature,
+    signatures,
+    messageHash,
+  } = request;
+  const sender = message.sender.toLowerCase();
+  const asset = message.asset ?? defaultAsset;
+  const transfers = getLedgerTransfers(message);
+  // Validated when the transaction was submitted
+  const fee = message.fee !== undefined ? parseBaseUnits(message.fee) : 0n;
+
+  saveChange(() => processTransaction(sender, asset, transfers, message.nonce, fee));
+
+  const feePaid = fee > 0n && feeRecipient
+    ? {
+      feeRecipient: {
+        address: toChecksumAddress(feeRecipient),
+        balance: String(getBalance(feeRecipient, asset)),
+      },
+    }
+    : {};
+  const record = history.append({
+    message,
+    signature,
+    signatures,
+    messageHash,
+    balances: message.transfers !== undefined
+      ? {
+        sender: String(getBalance(sender, asset)),
+        // Keyed by the recipients as signed, like the message
+        recipients: Object.fromEntries(getTransfers(message).map(({ recipient }) =>
+          [recipient, String(getBalance(recipient.toLowerCase(), asset))])),
+        ...feePaid,
+      }
+      : {
+        sender: String(getBalance(sender, asset)),
+        recipient: String(getBalance(transfers[0].recipient, asset)),
+        ...feePaid,
+      },
+    timestamp: Date.now(),
+  });
+  chain.addTransaction(record.messageHash);
+  getSignatures(request).forEach((accepted) =>
+    seenSignatures.add(signatureId(accepted, getSignatureEncoding(message.version))));
+
+  transfers.forEach(({ recipient, amount }) =>
+    logger.info(`Transaction successful: ${sender} → ${recipient} (${amount} ${asset})`));
+
+  const involved = [
+    sender,
+    ...transfers.map(({ recipient }) => recipient),
+    ...(fee > 0n && feeRecipient ? [feeRecipient] : []),
+  ];
+  events.publish('transaction', record, involved);
+  commitAccounts(involved, [asset]);
+
+  return record;
+}
+
+/**
+ * Sign the receipt of an accepted transaction
+ * Only called for records `applyTransaction` has saved and journaled, so a
+ * receipt never vouches for balances a crash could roll back. Signatures are
+ * deterministic, so the same record always yields the same receipt
+ */
+function issueReceipt(record: TransactionRecord): Promise<SignedReceipt> {
+  return signReceipt(createReceipt(record, chainId, defaultAsset), identity.privateKey);
+}
+
+/**
+ * Apply pending transactions from the mempool whose nonce gap has been filled
+ * Policies are checked again, as the sender may have been frozen or spent its
+ * limit while the transaction waited. A promoted transaction that fails (e.g.
+ * insufficient funds) is dropped and promotion stops, leaving later nonces pending
+ */
+function promotePendingTransactions(sender: string): TransactionRecord[] {
+  const promote = (promoted: TransactionRecord[]): TransactionRecord[] => {
+    const nextNonce = (state.nonces[sender] ?? 0) + 1;
+    const pending = mempool.take(sender, nextNonce);
+    if (!pending) {
+      return promoted;
+    }
+
+    try {
+      policy.check(pending.message);
+      return promote([...promoted, applyTransaction(pending)]);
+    } catch (error) {
+      logger.warn(`Dropped pending transaction with nonce ${nextNonce}`, error);
+      if (error instanceof ValidationError) {
+        publishRejected(pending, error, true);
+      }
+      return promoted;
+    }
+  };
+
+  return promote([]);
+}
+
+/**
+ * Check the account, asset and amount an admin action signs, so a malformed
+ * action is refused with its own code before it is hashed (throws on invalid)
+ * Mint and burn need an account and an amount, freeze and unfreeze an account;
+ * any other field present must be well-formed too
+ */
+function validateAdminFields(action: AdminAction): void {
+  if (action.type !== 'reset' || action.account !== undefined) {
+    normalizeAddress(action.account, 'account address');
+  }
+
+  const asset = assets.resolve(action.asset);
+  if (action.type === 'mint' || action.type === 'burn') {
+    validateAmount(action.amount, asset);
+  } else if (action.amount !== undefined) {
+    parseBaseUnits(action.amount);
+  }
+}
+
+/**
+ * Verify that an admin request is signed by the configured admin key (throws on invalid)
+ * Returns the authorized action
+ */
+function authorizeAdmin(body: AdminRequestBody, type: AdminAction['type']): AdminAction {
+  if (!adminAddress) {
+    throw new ValidationError(
+      ErrorCode.FORBIDDEN,
+      'Admin API is disabled: set ADMIN_ADDRESS to enable it',
+    );
+  }
+
+  const { action, signature } = body;
+  if (typeof action !== 'object' || action === null || typeof signature !== 'string') {
+    throw new ValidationError(ErrorCode.UNAUTHORIZED, 'Missing required fields: action or signature');
+  }
+  if (action.type !== type) {
+    throw new ValidationError(
+      ErrorCode.UNAUTHORIZED,
+      `Action type ${action.type} does not match this route`,
+      { expected: type, received: action.type },
+    );
+  }
+
+  validateChainId(action.chainId);
+  validateTimestamps(action.timestamp, undefined);
+  validateAdminFields(action);
+
+  const signer = recoverSigner(hashAdminAction(action), signature, 'recovered');
+  if (signer.toLowerCase() !== adminAddress) {
+    throw new ValidationError(
+      ErrorCode.UNAUTHORIZED,
+      'Action is not signed by the admin key',
+      { recovered: signer },
+    );
+  }
+
+  validateUnusedSignature(signature, 'recovered');
+
+  return action;
+}
+
+/**
+ * Change a balance in an asset outside of a transfer and journal the supply
+ * change (throws when burning more than the balance)
+ */
+function changeSupply(
+  type: 'mint' | 'burn' | 'faucet',
+  asset: string,
+  account: string,
+  amount: bigint,
+  signature?: string,
+): SupplyEvent {
+  const balance = getBalance(account, asset);
+  const delta = type === 'burn' ? -amount : amount;
+
+  if (balance + delta < 0n) {
+    throw new ValidationError(
+      ErrorCode.INSUFFICIENT_FUNDS,
+      'Cannot burn more than the account balance',
+      { asset, required: String(amount), available: String(balance) },
+    );
+  }
+
+  saveChange(() => {
+    setBalance(account, asset, balance + delta);
+    state.totalSupply[asset] = getTotalSupply(asset) + delta;
+  });
+
+  const event = supply.append({
+    type,
+    asset,
+    account,
+    amount: String(amount),
+    totalSupply: String(getTotalSupply(asset)),
+    signature,
+  });
+  if (signature) {
+    seenSignatures.add(signatureId(signature));
+  }
+
+  logger.info(`Supply ${type}: ${amount} ${asset} for ${account}, total supply ${getTotalSupply(asset)}`);
+  commitAccounts([account], [asset]);
+
+  return event;
+}
+
+/**
+ * Freeze an account or lift its freeze, consuming the admin signature
+ * Freezes are not journaled, so the signature id is saved with the frozen
+ * accounts to refuse its replay after a restart. Transactions of a frozen
+ * account still waiting in the mempool are dropped when their nonce comes up
+ */
+function setFrozen(account: string, frozen: boolean, signature: string): void {
+  const id = signatureId(signature);
+  saveChange(() => {
+    state.frozen = frozen
+      ? [...new Set([...state.frozen, account])]
+      : state.frozen.filter((entry) => entry !== account);
+    state.freezeSignatures = [...state.freezeSignatures, id];
+  });
+  seenSignatures.add(id);
+
+  logger.info(`Account ${account} ${frozen ? 'frozen' : 'unfrozen'}`);
+}
+
+/**
+ * Read the genesis file again, or return the inline allocation from the config
+ * file (throws on missing or invalid file)
+ */
+function reloadGenesis(): Genesis {
+  if (!config.genesisFile) {
+    return genesis;
+  }
+
+  try {
+    return loadGenesis(config.genesisFile);
+  } catch (error) {
+    throw new ValidationError(
+      ErrorCode.INTERNAL_ERROR,
+      `Failed to load genesis file: ${error instanceof Error ? error.message : 'unknown error'}`,
+    );
+  }
+}
+
+/**
+ * Get deployment details needed to sign transactions
+ */
+app.get('/info', (req: Request, res: Response) => {
+  res.send({
+    chainId,
+    domain: createDomain(chainId),
+    messageVersions: [
+      MessageVersion.LEGACY_JSON,
+      MessageVersion.EIP712,
+      MessageVersion.PERSONAL_SIGN,
+    ],
+    assets: assets.list().map(formatAsset),
+    decimals: config.decimals,
+    limits: {
+      maxTransactionAmount: String(config.maxTransactionAmount),
+      maxBatchSize: config.maxBatchSize,
+    },
+    receiptSigner: toChecksumAddress(identity.address),
+    ...(feeRecipient ? { feeRecipient: toChecksumAddress(feeRecipient) } : {}),
+  });
+});
+
+/**
+ * Get the server's signed commitment to the current state root
+ */
+app.get('/state', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.send(await getSignedStateCommitment());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the balances and nonce of an address with a Merkle proof against the
+ * signed state commitment; an unknown address is proven to have neither
+ * `balance` is in the default asset, `assets` lists non-zero balances in others
+ */
+app.get('/proof/:address', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+
+    // Take the account and proof together with the commitment they belong to
+    const commitment = getSignedStateCommitment();
+    const proof: Omit<AccountProof, 'commitment'> = {
+      address: toChecksumAddress(address),
+      balance: String(getBalance(address)),
+      assets: getOtherAssetBalances(address),
+      nonce: state.nonces[address] ?? 0,
+      proof: stateTree.getProof(address),
+    };
+
+    res.send({ ...proof, commitment: await commitment });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get current nonce for an address
+ */
+app.get('/nonce/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+
+    const nonce = state.nonces[address] ?? 0;
+    logger.debug(`Nonce retrieved: ${nonce}`);
+    res.send({ nonce });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get balance for an address in the `asset` query parameter (default asset if omitted)
+ */
+app.get('/balance/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+    const { symbol } = assets.resolve(req.query.asset);
+
+    const balance = getBalance(address, symbol);
+    logger.debug(`Balance retrieved: ${balance} ${symbol}`);
+    res.send({ balance: String(balance) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the balances of an address in every registered asset, default asset first
+ */
+app.get('/balances/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+
+    const balances: AccountBalances = {
+      address: toChecksumAddress(address),
+      balances: assets.list().map(({ symbol }) =>
+        ({ asset: symbol, balance: String(getBalance(address, symbol)) })),
+    };
+    res.send(balances);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * List the registered assets with their total supply, default asset first
+ */
+app.get('/assets', (req: Request, res: Response) => {
+  const registered: AssetSupply[] = assets.list().map((asset) => ({
+    ...formatAsset(asset),
+    totalSupply: String(getTotalSupply(asset.symbol)),
+  }));
+  res.send({ assets: registered });
+});
+
+/**
+ * Get transaction history for an address (newest first)
+ */
+app.get('/transactions/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+    const { offset, limit } = parsePagination(req.query);
+
+    const page = history.getByAddress(address, offset, limit);
+    logger.debug(`Transactions retrieved: ${page.transactions.length} of ${page.total}`);
+    res.send(page);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a single transaction by its message hash
+ */
+app.get('/transaction/:hash', (req: Request, res: Response, next: NextFunction) => {
+  const { hash } = req.params;
+
+  try {
+    const transaction = history.getByHash(hash);
+    if (!transaction) {
+      throw new ValidationError(ErrorCode.NOT_FOUND, 'Transaction not found', { hash });
+    }
+
+    res.send(transaction);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the server-signed receipt of an accepted transaction by its message hash
+ */
+app.get('/receipt/:hash', async (req: Request, res: Response, next: NextFunction) => {
+  const { hash } = req.params;
+
+  try {
+    const transaction = history.getByHash(hash);
+    if (!transaction) {
+      throw new ValidationError(ErrorCode.NOT_FOUND, 'Transaction not found', { hash });
+    }
+
+    res.send(await issueReceipt(transaction));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the latest block and the number of transactions waiting for the next one
+ */
+app.get('/head', (req: Request, res: Response) => {
+  res.send({ head: chain.getHead(), pendingTransactions: chain.getPendingCount() });
+});
+
+/**
+ * List blocks (newest first)
+ */
+app.get('/blocks', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { offset, limit } = parsePagination(req.query);
+    res.send(chain.getBlocks(offset, limit));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a single block by height
+ */
+app.get('/block/:height', (req: Request, res: Response, next: NextFunction) => {
+  const { height } = req.params;
+
+  try {
+    const block = /^\d+$/.test(height) ? chain.getBlock(parseInt(height, 10)) : undefined;
+    if (!block) {
+      throw new ValidationError(ErrorCode.NOT_FOUND, 'Block not found', { height });
+    }
+
+    res.send(block);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Register a multisig account
+ * The address is derived from the owners and threshold, so registering the
+ * same configuration again returns the existing account
+ */
+app.post('/multisig', (req: Request<object, object, MultisigAccount>, res: Response, next: NextFunction) => {
+  try {
+    const account = normalizeMultisigAccount(req.body.owners, req.body.threshold);
+    const address = computeMultisigAddress(account);
+    const created = !state.multisig[address];
+
+    if (created) {
+      saveChange(() => {
+        state.multisig[address] = account;
+      });
+      logger.info(`Multisig account registered: ${address} (${account.threshold} of ${account.owners.length})`);
+    }
+
+    res.status(created ? 201 : 200).send(formatMultisigAccount(address, account));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the owners and threshold of a multisig account
+ */
+app.get('/multisig/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+
+    const account = state.multisig[address];
+    if (!account) {
+      throw new ValidationError(ErrorCode.NOT_FOUND, 'Multisig account not found', { address });
+    }
+
+    res.send(formatMultisigAccount(address, account));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the policies an address's transfers are checked against, with what is
+ * left of each spending limit
+ */
+app.get('/policy/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.send(policy.getPolicy(normalizeAddress(req.params.address)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * List all pending transactions in the mempool
+ */
+app.get('/mempool', (req: Request, res: Response) => {
+  const transactions = mempool.getAll();
+  res.send({ transactions, total: transactions.length });
+});
+
+/**
+ * List pending transactions sent by an address (ordered by nonce)
+ */
+app.get('/mempool/:address', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+
+    const transactions = mempool.getByAddress(address);
+    res.send({ transactions, total: transactions.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Stream events as Server-Sent Events: balance changes, accepted transactions
+ * and dropped pending transactions of the `address` query parameters (repeatable),
+ * and every new block. Missed events are not replayed after a reconnect.
+ */
+app.get('/events', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const addresses = parseEventAddresses(req.query);
+
+    if (events.getSubscriberCount() >= MAX_EVENT_SUBSCRIBERS) {
+      throw new ValidationError(
+        ErrorCode.RATE_LIMITED,
+        'Too many event subscribers, try again later',
+        { max: MAX_EVENT_SUBSCRIBERS },
+      );
+    }
+
+    events.subscribe(res, addresses);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Process a signed transaction
+ * Transfers from a multisig account carry the owners' `signatures` instead of `signature`
+ * A batch message lists its legs in `transfers` instead of `recipient` and `amount`
+ * An accepted transfer is answered with a receipt signed by the server's identity key,
+ * once its balances and nonce are saved. A well-formed message refused for its
+ * signature, funds or policies is also pushed to the sender's subscribers.
+ */
+app.post('/send', async (req: Request<object, object, SendRequestBody>, res: Response, next: NextFunction) => {
+  const {
+    message,
+    signature,
+    signatures,
+    messageHash,
+  } = req.body;
+
+  if (!message || (!signature && !signatures) || !messageHash) {
+    next(
+      new ValidationError(
+        ErrorCode.INVALID_SIGNATURE,
+        'Missing required fields: message, signature (or signatures), or messageHash',
+      ),
+    );
+    return;
+  }
+
+  const { nonce } = message;
+  let isWellFormed = false;
+
+  try {
+    logger.debug('Validating transaction');
+
+    const sender = normalizeAddress(message.sender, 'sender address');
+    const asset = assets.resolve(message.asset);
+    const transfers = validateTransfers(message, asset);
+    const isNextNonce = validateNonce(sender, nonce);
+    validateVersion(message.version);
+    validateChainId(message.chainId);
+    const deadline = validateTimestamps(message.timestamp, message.validUntil);
+    const fee = validateFee(message, asset);
+    const digest = validateMessageHash(message, messageHash);
+    isWellFormed = true;
+
+    const multisigAccount = state.multisig[sender];
+    if (multisigAccount) {
+      validateMultisigSignatures(multisigAccount, digest, signatures, message.version);
+    } else if (signatures !== undefined) {
+      throw new ValidationError(
+        ErrorCode.INVALID_SIGNATURE,
+        'Only multisig accounts can send a signatures array',
+      );
+    } else {
+      validateSignature(sender, digest, signature, message.version);
+    }
+
+    policy.check(message);
+
+    const request: SendRequestBody = multisigAccount
+      ? { message, signatures, messageHash }
+      : { message, signature, messageHash };
+
+    if (!isNextNonce) {
+      const { entry, replaced } = mempool.add(request, deadline);
+      logger.info(`Transaction queued with nonce ${nonce}${replaced ? ' (replaced)' : ''}`);
+
+      res.status(202).send({
+        status: 'pending',
+        nonce,
+        replaced,
+        expiresAt: entry.expiresAt,
+      });
+      return;
+    }
+
+    logger.debug('Processing transaction');
+    const record = applyTransaction(request);
+    const promoted = promotePendingTransactions(sender);
+    const receipt = await issueReceipt(record);
+
+    res.send({
+      status: 'accepted',
+      transactionId: record.id,
+      balance: String(getBalance(sender, asset.symbol)),
+      fee: String(fee),
+      newNonce: state.nonces[sender],
+      ...(message.transfers !== undefined
+        ? {
+          recipients: transfers.map(({ recipient }) => ({
+            address: toChecksumAddress(recipient),
+            newBalance: String(getBalance(recipient, asset.symbol)),
+          })),
+        }
+        : {
+          recipient: {
+            address: toChecksumAddress(transfers[0].recipient),
+            newBalance: String(getBalance(transfers[0].recipient, asset.symbol)),
+          },
+        }),
+      promoted: promoted.map(({ id, messageHash: hash, message: { nonce: promotedNonce } }) => ({
+        transactionId: id,
+        messageHash: hash,
+        nonce: promotedNonce,
+      })),
+      receipt,
+    });
+  } catch (error) {
+    if (isWellFormed && error instanceof ValidationError) {
+      publishRejected({ message, messageHash }, error, false);
+    }
+    next(error);
+  }
+});
+
+/**
+ * Mint new tokens of an asset to an address (admin only)
+ */
+app.post('/admin/mint', (req: Request<object, object, AdminRequestBody>, res: Response, next: NextFunction) => {
+  try {
+    const { account: signedAccount, asset: signedAsset, amount } = authorizeAdmin(req.body, 'mint');
+    const account = normalizeAddress(signedAccount);
+    const asset = assets.resolve(signedAsset);
+    policy.checkCredit(account);
+
+    const event = changeSupply(
+      'mint',
+      asset.symbol,
+      account,
+      validateAmount(amount, asset),
+      req.body.signature,
+    );
+    res.send({
+      event,
+      balance: String(getBalance(account, asset.symbol)),
+      totalSupply: String(getTotalSupply(asset.symbol)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Burn tokens of an asset from an address (admin only)
+ */
+app.post('/admin/burn', (req: Request<object, object, AdminRequestBody>, res: Response, next: NextFunction) => {
+  try {
+    const { account: signedAccount, asset: signedAsset, amount } = authorizeAdmin(req.body, 'burn');
+    const account = normalizeAddress(signedAccount);
+    const asset = assets.resolve(signedAsset);
+
+    const event = changeSupply(
+      'burn',
+      asset.symbol,
+      account,
+      validateAmount(amount, asset),
+      req.body.signature,
+    );
+    res.send({
+      event,
+      balance: String(getBalance(account, asset.symbol)),
+      totalSupply: String(getTotalSupply(asset.symbol)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replace the default asset's balances with the allocation in the genesis file
+ * and clear the balances of every other asset (admin only)
+ * The file is read again, so edits take effect without a restart. Nonces and
+ * multisig accounts are kept, so signed transactions cannot be replayed.
+ * A genesis supply event is journaled for each asset, the default one first.
+ */
+app.post('/admin/reset', (req: Request<object, object, AdminRequestBody>, res: Response, next: NextFunction) => {
+  try {
+    authorizeAdmin(req.body, 'reset');
+    const { balances } = reloadGenesis();
+    const changed = [...getAccountAddresses(), ...Object.keys(balances)];
+    const resetAssets = [...new Set([defaultAsset, ...Object.keys(state.totalSupply)])];
+
+    saveChange(() => {
+      state.balances = { [defaultAsset]: balances };
+      state.totalSupply = { [defaultAsset]: sumBalances(balances) };
+    });
+
+    const [event] = resetAssets.map((asset) => supply.append({
+      type: 'genesis',
+      asset,
+      amount: String(getTotalSupply(asset)),
+      totalSupply: String(getTotalSupply(asset)),
+      signature: req.body.signature,
+    }));
+    seenSignatures.add(signatureId(req.body.signature));
+
+    logger.info(`Balances reset to genesis, total ${defaultAsset} supply ${getTotalSupply(defaultAsset)}`);
+    commitAccounts(changed, resetAssets);
+    res.send({ event, totalSupply: String(getTotalSupply(defaultAsset)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Freeze an account so it can neither send nor be credited (admin only)
+ * The fee recipient cannot be frozen, as every transfer paying a fee would be refused
+ */
+app.post('/admin/freeze', (req: Request<object, object, AdminRequestBody>, res: Response, next: NextFunction) => {
+  try {
+    const account = normalizeAddress(authorizeAdmin(req.body, 'freeze').account);
+    if (account === feeRecipient) {
+      throw new ValidationError(
+        ErrorCode.FORBIDDEN,
+        'The fee recipient cannot be frozen',
+        { account: toChecksumAddress(account) },
+      );
+    }
+
+    setFrozen(account, true, req.body.signature);
+    res.send(policy.getPolicy(account));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Lift the freeze of an account (admin only)
+ */
+app.post('/admin/unfreeze', (req: Request<object, object, AdminRequestBody>, res: Response, next: NextFunction) => {
+  try {
+    const account = normalizeAddress(authorizeAdmin(req.body, 'unfreeze').account);
+
+    setFrozen(account, false, req.body.signature);
+    res.send(policy.getPolicy(account));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the total supply of the `asset` query parameter (default asset if
+ * omitted) and its change log (newest first)
+ */
+app.get('/supply', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { offset, limit } = parsePagination(req.query);
+    const { symbol } = assets.resolve(req.query.asset);
+    res.send({
+      asset: symbol,
+      totalSupply: String(getTotalSupply(symbol)),
+      ...supply.getEvents(offset, limit, symbol),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Hand out demo tokens of the default asset, at most once per address and
+ * client IP per cooldown
+ * Disabled unless FAUCET_AMOUNT is set
+ */
+app.post('/faucet', (req: Request<object, object, { address?: string }>, res: Response, next: NextFunction) => {
+  try {
+    if (faucetAmount <= 0n) {
+      throw new ValidationError(ErrorCode.FORBIDDEN, 'Faucet is disabled');
+    }
+
+    const address = normalizeAddress(req.body.address);
+    policy.checkCredit(address);
+
+    const retryAfter = faucetLimiter.take([`address:${address}`, `ip:${req.ip}`]);
+    if (retryAfter !== undefined) {
+      const seconds = Math.ceil(retryAfter / 1000);
+      res.set('Retry-After', String(seconds));
+      throw new ValidationError(
+        ErrorCode.RATE_LIMITED,
+        `Faucet already used, try again in ${seconds} seconds`,
+        { retryAfter: seconds },
+      );
+    }
+
+    changeSupply('faucet', defaultAsset, address, faucetAmount);
+    res.send({ amount: String(faucetAmount), balance: String(getBalance(address)) });
   } catch (error) {
     next(error);
   }
@@ -252,7 +1732,10 @@ app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
     logger.warn('Request failed', err);
 
     const getStatusCode = (code: string): number => {
-      if (code === ErrorCode.INVALID_SIGNATURE) return 401;
+      if (code === ErrorCode.INVALID_SIGNATURE || code === ErrorCode.UNAUTHORIZED) return 401;
+      if (code === ErrorCode.FORBIDDEN) return 403;
+      if (code === ErrorCode.NOT_FOUND) return 404;
+      if (code === ErrorCode.RATE_LIMITED) return 429;
       if (code === ErrorCode.INTERNAL_ERROR) return 500;
       return 400;
     };
@@ -269,23 +1752,33 @@ app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
   });
 });
 
-const server = app.listen(getPort(), () => {
-  logger.info(`Server listening on port ${getPort()}`);
-  logger.info(`Loaded ${Object.keys(state.balances).length} accounts with initial balances`);
+const server = app.listen(config.port, () => {
+  logger.info(`Server listening on port ${config.port}`);
+  logger.info(`Chain ID: ${chainId}`);
+  logger.info(`Assets: ${assets.list().map(({ symbol }) => symbol).join(', ')}`);
+  logger.info(`Loaded ${getAccountAddresses().length} accounts with initial balances`);
 });
 
 // Shutdown handler with timeout
 const shutdown = (signal: string) => {
   logger.info(`Received ${signal}, shutting down...`);
 
-  // Force exit after 10 seconds if graceful shutdown hangs
+  // Force exit if graceful shutdown hangs
   const timeout = setTimeout(() => {
     logger.warn('Graceful shutdown timeout, forcing exit');
+    mempool.stop();
+    chain.stop();
+    store.flush();
     process.exit(1);
-  }, GRACE_SHUTDOWN_TIMEOUT);
+  }, config.shutdownTimeout);
 
+  // Open event streams would keep the server from closing
+  events.close();
   server.close(() => {
     clearTimeout(timeout);
+    mempool.stop();
+    chain.stop();
+    store.flush();
     logger.info('Server closed');
     process.exit(0);
   });
@@ -0,0 +1,30 @@
+import fs from 'fs';
+import { logger } from './logger/logger';
+
+/**
+ * Read every record from a JSON Lines journal, skipping lines that cannot be
+ * parsed (e.g. a partial last line left behind by a crash mid-append)
+ */
+export function readJournal<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter((line) => line.trim());
+
+  return lines.flatMap((line, index) => {
+    try {
+      return [JSON.parse(line) as T];
+    } catch {
+      logger.warn(`Skipping unreadable line ${index + 1} in ${filePath}`);
+      return [];
+    }
+  });
+}
+
+/**
+ * Append a single record to a JSON Lines journal
+ */
+export function appendJournal<T>(filePath: string, record: T): void {
+  fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`);
+}
@@ -1,6 +1,17 @@
 import { getLogContext } from './context';
+import { LOG_LEVELS } from './types';
 import type { LogLevel, LoggingParameters, LogOutput, Logger } from './types';
 
+// Lowest level that is written; set once from the server config at startup
+const settings: { level: LogLevel } = { level: 'debug' };
+
+/**
+ * Drop log entries below the given level
+ */
+export const setLogLevel = (level: LogLevel): void => {
+  settings.level = level;
+};
+
 const createLogObject = (level: LogLevel, parameters: LoggingParameters): LogOutput => {
   const context = getLogContext();
   const { operation, requestId, address, transactionData } = context.data;
@@ -52,6 +63,10 @@ const extractStack = (parameters: LoggingParameters): string | undefined => {
 };
 
 const log = (level: LogLevel, parameters: LoggingParameters): void => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+    return;
+  }
+
   const logObject = createLogObject(level, parameters);
   process.stdout.write(`${JSON.stringify(logObject)}\n`);
 };
@@ -0,0 +1,125 @@
+import { logger } from './logger/logger';
+import { ErrorCode, PendingTransaction, SendRequestBody } from './types';
+import { ValidationError } from './errors';
+
+export interface Mempool {
+  add(request: SendRequestBody, deadline: number): { entry: PendingTransaction; replaced: boolean };
+  take(sender: string, nonce: number): PendingTransaction | undefined;
+  getAll(): PendingTransaction[];
+  getByAddress(address: string): PendingTransaction[];
+  stop(): void;
+}
+
+export interface MempoolOptions {
+  ttl: number;
+  maxPerSender: number;
+  sweepInterval: number;
+  onExpire?: (entry: PendingTransaction) => void;
+}
+
+/**
+ * Sort pending transactions by sender, then nonce (pure function)
+ */
+function byNonce(a: PendingTransaction, b: PendingTransaction): number {
+  return a.message.sender.localeCompare(b.message.sender) || a.message.nonce - b.message.nonce;
+}
+
+/**
+ * Create a pool for signed transactions whose nonce is ahead of the sender's
+ * current nonce. Entries wait here until the gap fills, they are replaced by a
+ * transaction with the same nonce, or they expire (after the pool's ttl or the
+ * transaction's own deadline, whichever comes first; `onExpire` is called with
+ * every expired entry).
+ */
+export function createMempool(options: MempoolOptions): Mempool {
+  const {
+    ttl,
+    maxPerSender,
+    sweepInterval,
+    onExpire,
+  } = options;
+
+  // sender (lowercase) -> nonce -> pending transaction
+  const pool = new Map<string, Map<number, PendingTransaction>>();
+
+  const purgeExpired = (now: number): void => {
+    pool.forEach((entries, sender) => {
+      entries.forEach((entry, nonce) => {
+        if (entry.expiresAt <= now) {
+          entries.delete(nonce);
+          logger.info(`Expired pending transaction from ${sender} with nonce ${nonce}`);
+          onExpire?.(entry);
+        }
+      });
+      if (entries.size === 0) {
+        pool.delete(sender);
+      }
+    });
+  };
+
+  const add = (
+    request: SendRequestBody,
+    deadline: number,
+  ): { entry: PendingTransaction; replaced: boolean } => {
+    const now = Date.now();
+    purgeExpired(now);
+
+    const sender = request.message.sender.toLowerCase();
+    const entries = pool.get(sender) ?? new Map<number, PendingTransaction>();
+    const replaced = entries.has(request.message.nonce);
+
+    if (!replaced && entries.size >= maxPerSender) {
+      throw new ValidationError(
+        ErrorCode.MEMPOOL_FULL,
+        `Too many pending transactions (max ${maxPerSender})`,
+        { pending: entries.size, max: maxPerSender },
+      );
+    }
+
+    const entry: PendingTransaction = {
+      ...request,
+      receivedAt: now,
+      expiresAt: Math.min(now + ttl, deadline),
+    };
+    entries.set(request.message.nonce, entry);
+    pool.set(sender, entries);
+
+    return { entry, replaced };
+  };
+
+  const take = (sender: string, nonce: number): PendingTransaction | undefined => {
+    purgeExpired(Date.now());
+
+    const entries = pool.get(sender.toLowerCase());
+    const entry = entries?.get(nonce);
+
+    if (entries && entry) {
+      entries.delete(nonce);
+      if (entries.size === 0) {
+        pool.delete(sender.toLowerCase());
+      }
+    }
+
+    return entry;
+  };
+
+  const getAll = (): PendingTransaction[] => {
+    purgeExpired(Date.now());
+    return Array.from(pool.values())
+      .flatMap((entries) => Array.from(entries.values()))
+      .sort(byNonce);
+  };
+
+  const getByAddress = (address: string): PendingTransaction[] => {
+    purgeExpired(Date.now());
+    return Array.from(pool.get(address.toLowerCase())?.values() ?? []).sort(byNonce);
+  };
+
+  const timer = setInterval(() => purgeExpired(Date.now()), sweepInterval);
+
+  const stop = (): void => {
+    clearInterval(timer);
+  };
+
+  return { add, take, getAll, getByAddress, stop };
+}
@@ -0,0 +1,58 @@
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { hasValidChecksum, isAddress } from '@ecdsa-node/protocol';
+import { ErrorCode, MultisigAccount } from './types';
+import { ValidationError } from './errors';
+
+export const MAX_MULTISIG_OWNERS = 16;
+
+const MULTISIG_ADDRESS_PREFIX = 'ECDSA Node multisig';
+
+/**
+ * Check a multisig configuration and bring it into canonical form (throws on invalid)
+ * Owners are lowercased and sorted, so the same owners and threshold always
+ * describe the same account
+ */
+export function normalizeMultisigAccount(owners: unknown, threshold: unknown): MultisigAccount {
+  if (
+    !Array.isArray(owners)
+    || owners.length === 0
+    || owners.length > MAX_MULTISIG_OWNERS
+    || !owners.every((owner) => isAddress(owner) && hasValidChecksum(owner))
+  ) {
+    throw new ValidationError(
+      ErrorCode.INVALID_MULTISIG,
+      `Invalid owners: expected 1 to ${MAX_MULTISIG_OWNERS} addresses with valid checksums`,
+      { owners },
+    );
+  }
+
+  const normalizedOwners = [...new Set(owners.map((owner: string) => owner.toLowerCase()))].sort();
+  if (normalizedOwners.length !== owners.length) {
+    throw new ValidationError(ErrorCode.INVALID_MULTISIG, 'Invalid owners: duplicate address');
+  }
+
+  if (!Number.isInteger(threshold) || (threshold as number) < 1
+    || (threshold as number) > owners.length) {
+    throw new ValidationError(
+      ErrorCode.INVALID_MULTISIG,
+      `Invalid threshold: must be between 1 and ${owners.length}`,
+      { threshold },
+    );
+  }
+
+  return { owners: normalizedOwners, threshold: threshold as number };
+}
+
+/**
+ * Derive the address of a multisig account from its canonical configuration (pure function)
+ * keccak256("ECDSA Node multisig" ‖ uint256 threshold ‖ owner addresses), last 20 bytes
+ */
+export function computeMultisigAddress(account: MultisigAccount): string {
+  const hash = keccak_256(secp.etc.concatBytes(
+    new TextEncoder().encode(MULTISIG_ADDRESS_PREFIX),
+    secp.etc.hexToBytes(account.threshold.toString(16).padStart(64, '0')),
+    ...account.owners.map((owner) => secp.etc.hexToBytes(owner.slice(2))),
+  ));
+  return `0x${secp.etc.bytesToHex(hash.slice(-20))}`;
+}
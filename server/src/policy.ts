@@ -0,0 +1,211 @@
+import { getTransfers, toChecksumAddress } from '@ecdsa-node/protocol';
+import {
+  AccountPolicy,
+  ErrorCode,
+  TransactionMessage,
+} from './types';
+import { ValidationError } from './errors';
+import { PolicyRule } from './config';
+import { TransactionHistory } from './history';
+
+export interface PolicyEngine {
+  check(message: TransactionMessage, now?: number): void;
+  checkCredit(address: string): void;
+  getPolicy(address: string, now?: number): AccountPolicy;
+}
+
+export interface PolicyEngineOptions {
+  rules: readonly PolicyRule[];
+  defaultAsset: string;
+  history: Pick<TransactionHistory, 'getByAddressSince'>;
+  feeRecipient?: string;
+  isFrozen(address: string): boolean;
+}
+
+type FrozenRole = 'sender' | 'recipient' | 'feeRecipient';
+
+const FROZEN_MESSAGES: Record<FrozenRole, (account: string) => string> = {
+  sender: () => 'Account is frozen and cannot send transfers',
+  recipient: (account) => `Recipient ${account} is frozen and cannot receive transfers`,
+  feeRecipient: (account) => `Fee recipient ${account} is frozen and cannot collect fees`,
+};
+
+interface ResolvedLimit {
+  asset: string;
+  limit: bigint;
+  window: number;
+  spent: bigint;
+}
+
+/**
+ * The policies of one account with lowercase addresses and bigint amounts
+ */
+interface ResolvedPolicy {
+  limits: ResolvedLimit[];
+  allowed?: string[];
+  denied: string[];
+}
+
+/**
+ * Base units a message takes from its sender: every leg plus the fee (pure function)
+ */
+function getOutflow(message: TransactionMessage): bigint {
+  return getTransfers(message)
+    .reduce((total, { amount }) => total + BigInt(amount), BigInt(message.fee ?? 0));
+}
+
+/**
+ * Create the engine that checks transfers against the configured policy rules
+ * and the accounts frozen by the admin
+ * A frozen account cannot be credited either: not by a transfer, a mint, a
+ * faucet payout or, for the fee recipient, a fee
+ * Spending is read back from the transaction history, so limits hold across
+ * restarts; only applied transactions count, not ones waiting in the mempool
+ */
+export function createPolicyEngine(options: PolicyEngineOptions): PolicyEngine {
+  const {
+    rules,
+    defaultAsset,
+    history,
+    feeRecipient,
+    isFrozen,
+  } = options;
+
+  const checkNotFrozen = (
+    account: string,
+    role: FrozenRole,
+    describe = FROZEN_MESSAGES[role],
+  ): void => {
+    if (isFrozen(account)) {
+      throw new ValidationError(
+        ErrorCode.ACCOUNT_FROZEN,
+        describe(toChecksumAddress(account)),
+        { account: toChecksumAddress(account), role },
+      );
+    }
+  };
+
+  const getSpent = (address: string, asset: string, since: number): bigint =>
+    history.getByAddressSince(address, since)
+      .filter(({ message }) => message.sender.toLowerCase() === address
+        && (message.asset ?? defaultAsset) === asset)
+      .reduce((total, { message }) => total + getOutflow(message), 0n);
+
+  /**
+   * Combine the rules naming an address and the rules for every account
+   * Allowlists intersect and denylists add up, since every rule must pass
+   */
+  const resolve = (address: string, now: number): ResolvedPolicy => {
+    const applicable = rules.filter(({ account }) => account === '*' || account === address);
+    const allowlists = applicable.flatMap(({ allowedRecipients }) =>
+      (allowedRecipients ? [allowedRecipients] : []));
+
+    return {
+      limits: applicable.flatMap(({ spendingLimit }) => {
+        if (!spendingLimit) return [];
+        const asset = spendingLimit.asset ?? defaultAsset;
+        return [{
+          asset,
+          limit: spendingLimit.amount,
+          window: spendingLimit.window,
+          spent: getSpent(address, asset, now - spendingLimit.window),
+        }];
+      }),
+      ...(allowlists.length > 0
+        ? {
+          allowed: allowlists.reduce((allowed, list) =>
+            allowed.filter((entry) => list.includes(entry))),
+        }
+        : {}),
+      denied: [...new Set(applicable.flatMap(({ deniedRecipients = [] }) => deniedRecipients))],
+    };
+  };
+
+  /**
+   * Check a validated message against every policy of its sender and
+   * recipients (throws the code of the first policy it breaks)
+   */
+  const check = (message: TransactionMessage, now = Date.now()): void => {
+    const sender = message.sender.toLowerCase();
+    const asset = message.asset ?? defaultAsset;
+    const recipients = [...new Set(getTransfers(message)
+      .map(({ recipient }) => recipient.toLowerCase()))];
+
+    checkNotFrozen(sender, 'sender');
+    recipients.forEach((recipient) => checkNotFrozen(recipient, 'recipient'));
+    if (feeRecipient && BigInt(message.fee ?? 0) > 0n) {
+      checkNotFrozen(feeRecipient, 'feeRecipient');
+    }
+
+    const { limits, allowed, denied } = resolve(sender, now);
+    recipients.forEach((recipient) => {
+      if (denied.includes(recipient)) {
+        throw new ValidationError(
+          ErrorCode.RECIPIENT_DENIED,
+          `Transfers to ${toChecksumAddress(recipient)} are not allowed`,
+          { recipient: toChecksumAddress(recipient) },
+        );
+      }
+      if (allowed && !allowed.includes(recipient)) {
+        throw new ValidationError(
+          ErrorCode.RECIPIENT_NOT_ALLOWED,
+          `${toChecksumAddress(recipient)} is not an allowed recipient of this account`,
+          { recipient: toChecksumAddress(recipient), allowed: allowed.map(toChecksumAddress) },
+        );
+      }
+    });
+
+    const required = getOutflow(message);
+    limits.filter((limit) => limit.asset === asset).forEach(({ limit, window, spent }) => {
+      if (spent + required > limit) {
+        const remaining = spent < limit ? limit - spent : 0n;
+        throw new ValidationError(
+          ErrorCode.SPENDING_LIMIT_EXCEEDED,
+          `Spending limit exceeded: ${limit} ${asset} base units per ${window} ms, ${remaining} left`,
+          {
+            asset,
+            limit: String(limit),
+            window,
+            spent: String(spent),
+            required: String(required),
+            remaining: String(remaining),
+          },
+        );
+      }
+    });
+  };
+
+  const getPolicy = (address: string, now = Date.now()): AccountPolicy => {
+    const { limits, allowed, denied } = resolve(address, now);
+    return {
+      address: toChecksumAddress(address),
+      frozen: isFrozen(address),
+      spendingLimits: limits.map(({
+        asset,
+        limit,
+        window,
+        spent,
+      }) => ({
+        asset,
+        limit: String(limit),
+        window,
+        spent: String(spent),
+        remaining: String(spent < limit ? limit - spent : 0n),
+      })),
+      ...(allowed ? { allowedRecipients: allowed.map(toChecksumAddress) } : {}),
+      deniedRecipients: denied.map(toChecksumAddress),
+    };
+  };
+
+  /**
+   * Check that an account may be credited outside of a transfer, by a mint or
+   * a faucet payout (throws ACCOUNT_FROZEN)
+   */
+  const checkCredit = (address: string): void => checkNotFrozen(
+    address,
+    'recipient',
+    (account) => `Account ${account} is frozen and cannot be credited`,
+  );
+
+  return { check, checkCredit, getPolicy };
+}
@@ -0,0 +1,40 @@
+export interface RateLimiter {
+  take(keys: string[]): number | undefined;
+}
+
+/**
+ * Create an in-memory limiter allowing one hit per key per window
+ * `take` records a hit for every key and returns undefined, or, when any key
+ * is still within its window, records nothing and returns the time (ms) until
+ * all of them are free again
+ */
+export function createRateLimiter(window: number): RateLimiter {
+  const lastHits = new Map<string, number>();
+
+  const purgeExpired = (now: number): void => {
+    lastHits.forEach((hitAt, key) => {
+      if (hitAt + window <= now) {
+        lastHits.delete(key);
+      }
+    });
+  };
+
+  const take = (keys: string[]): number | undefined => {
+    const now = Date.now();
+    purgeExpired(now);
+
+    const retryAfter = Math.max(0, ...keys.map((key) => {
+      const hitAt = lastHits.get(key);
+      return hitAt === undefined ? 0 : hitAt + window - now;
+    }));
+
+    if (retryAfter > 0) {
+      return retryAfter;
+    }
+
+    keys.forEach((key) => lastHits.set(key, now));
+    return undefined;
+  };
+
+  return { take };
+}
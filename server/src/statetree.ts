@@ -0,0 +1,95 @@
+import * as secp from '@noble/secp256k1';
+import {
+  AssetBalance,
+  EMPTY_STATE_HASHES,
+  getStateKey,
+  hashStateLeaf,
+  hashStateNode,
+  STATE_TREE_DEPTH,
+} from '@ecdsa-node/protocol';
+import { StateProof } from './types';
+
+export interface StateTree {
+  update(address: string, balance: bigint, nonce: number, assets?: AssetBalance[]): void;
+  getRoot(): string;
+  getProof(address: string): StateProof;
+}
+
+export interface StateAccount {
+  address: string;
+  balance: bigint;
+  nonce: number;
+  /** Balances in assets other than the default one */
+  assets?: AssetBalance[];
+}
+
+/**
+ * Create a sparse Merkle tree over account balances (in every asset) and nonces
+ * Only nodes that differ from an empty subtree are kept, so an update or a
+ * proof touches one node per level whatever the number of accounts
+ */
+export function createStateTree(accounts: readonly StateAccount[]): StateTree {
+  // "<level>:<index>" -> hash, where index is the leaf key shifted right by level
+  const nodes = new Map<string, Uint8Array>();
+
+  const nodeId = (level: number, index: bigint): string => `${level}:${index.toString(16)}`;
+
+  const getNode = (level: number, index: bigint): Uint8Array =>
+    nodes.get(nodeId(level, index)) ?? EMPTY_STATE_HASHES[level];
+
+  const setNode = (level: number, index: bigint, hash: Uint8Array): void => {
+    if (secp.etc.bytesToHex(hash) === secp.etc.bytesToHex(EMPTY_STATE_HASHES[level])) {
+      nodes.delete(nodeId(level, index));
+    } else {
+      nodes.set(nodeId(level, index), hash);
+    }
+  };
+
+  const update = (
+    address: string,
+    balance: bigint,
+    nonce: number,
+    assets: AssetBalance[] = [],
+  ): void => {
+    const key = getStateKey(address);
+    setNode(0, key, hashStateLeaf(address, balance, nonce, assets));
+
+    for (let level = 0; level < STATE_TREE_DEPTH; level += 1) {
+      const index = key >> BigInt(level);
+      const node = getNode(level, index);
+      const sibling = getNode(level, index ^ 1n);
+      setNode(
+        level + 1,
+        index >> 1n,
+        index & 1n ? hashStateNode(sibling, node) : hashStateNode(node, sibling),
+      );
+    }
+  };
+
+  const getRoot = (): string => secp.etc.bytesToHex(getNode(STATE_TREE_DEPTH, 0n));
+
+  const getProof = (address: string): StateProof => {
+    const key = getStateKey(address);
+    let bitmap = 0n;
+    const siblings: string[] = [];
+
+    for (let level = 0; level < STATE_TREE_DEPTH; level += 1) {
+      const sibling = nodes.get(nodeId(level, (key >> BigInt(level)) ^ 1n));
+      if (sibling) {
+        bitmap |= 1n << BigInt(level);
+        siblings.push(secp.etc.bytesToHex(sibling));
+      }
+    }
+
+    return { bitmap: bitmap.toString(16).padStart(STATE_TREE_DEPTH / 4, '0'), siblings };
+  };
+
+  accounts.forEach(({
+    address,
+    balance,
+    nonce,
+    assets,
+  }) => update(address, balance, nonce, assets));
+
+  return { update, getRoot, getProof };
+}
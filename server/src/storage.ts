@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import { parseBaseUnits } from '@ecdsa-node/protocol';
+import { logger } from './logger/logger';
+import { Balances, MultisigAccounts, Nonces } from './types';
+import { sumBalances } from './genesis';
+
+export interface LedgerState {
+  balances: Balances;
+  nonces: Nonces;
+  multisig: MultisigAccounts;
+  totalSupply: { [asset: string]: bigint };
+  /** Accounts frozen by the admin, which can neither send nor be credited */
+  frozen: string[];
+  /** Ids of the admin signatures that froze or unfroze an account, so they are never replayed */
+  freezeSignatures: string[];
+}
+
+export interface StateStore {
+  readonly state: LedgerState;
+  flushNow(): void;
+  flush(): void;
+}
+
+type StoredAmount = bigint | number | string;
+type StoredBalances = Record<string, StoredAmount>;
+
+/**
+ * Ledger as read from disk - files written before multisig accounts, supply
+ * tracking and freezes existed have no `multisig`, `totalSupply`, `frozen` or
+ * `freezeSignatures` key, files written before amounts were strings hold them as numbers, and
+ * files written before assets existed hold the default asset's balances and
+ * supply alone
+ */
+interface StoredLedgerState {
+  balances: Record<string, StoredBalances> | StoredBalances;
+  nonces: Nonces;
+  multisig?: MultisigAccounts;
+  totalSupply?: Record<string, StoredAmount> | StoredAmount;
+  frozen?: string[];
+  freezeSignatures?: string[];
+}
+
+/**
+ * Check that parsed JSON has the shape of a persisted ledger (pure function)
+ */
+function isLedgerState(value: unknown): value is StoredLedgerState {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const isAmount = (entry: unknown): boolean => {
+    try {
+      parseBaseUnits(entry);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const isRecordOf = (record: unknown, isEntry: (entry: unknown) => boolean): boolean =>
+    typeof record === 'object'
+    && record !== null
+    && !Array.isArray(record)
+    && Object.values(record).every(isEntry);
+
+  const isStringList = (list: unknown): boolean =>
+    list === undefined || (Array.isArray(list) && list.every((entry) => typeof entry === 'string'));
+
+  const isMultisigRecord = (record: unknown): boolean =>
+    record === undefined || (
+      typeof record === 'object'
+      && record !== null
+      && !Array.isArray(record)
+      && Object.values(record).every((account) =>
+        Array.isArray(account?.owners)
+        && account.owners.every((owner: unknown) => typeof owner === 'string')
+        && Number.isInteger(account.threshold))
+    );
+
+  const {
+    balances,
+    nonces,
+    multisig,
+    totalSupply,
+    frozen,
+    freezeSignatures,
+  } = value as Record<string, unknown>;
+  const isAmountRecord = (record: unknown): boolean => isRecordOf(record, isAmount);
+  return (isAmountRecord(balances) || isRecordOf(balances, isAmountRecord))
+    && isRecordOf(nonces, (entry) => Number.isInteger(entry) && (entry as number) >= 0)
+    && isMultisigRecord(multisig)
+    && (totalSupply === undefined || isAmount(totalSupply) || isAmountRecord(totalSupply))
+    && isStringList(frozen)
+    && isStringList(freezeSignatures);
+}
+
+/**
+ * Stored balances keyed by asset, with a ledger written before assets existed
+ * read as the default asset's (pure function)
+ */
+function balancesByAsset(
+  state: StoredLedgerState,
+  defaultAsset: string,
+): Record<string, StoredBalances> {
+  const { balances } = state;
+  return Object.values(balances).every((entry) => typeof entry === 'object')
+    ? balances as Record<string, StoredBalances>
+    : { [defaultAsset]: balances as StoredBalances };
+}
+
+/**
+ * Key a record by lowercase address, combining entries whose keys differ only
+ * in letter case (pure function). Ledgers written before addresses were
+ * normalized can hold one account under several spellings.
+ */
+function mergeByAddress<T>(
+  record: Record<string, T>,
+  combine: (first: T, second: T) => T,
+): Record<string, T> {
+  const merged = new Map<string, T>();
+  Object.entries(record).forEach(([address, value]) => {
+    const key = address.toLowerCase();
+    const existing = merged.get(key);
+    merged.set(key, existing === undefined ? value : combine(existing, value));
+  });
+  return Object.fromEntries(merged);
+}
+
+/**
+ * Copy a ledger so the caller's objects are never mutated (pure function)
+ * Addresses are lowercased: balances of one account are added up and its
+ * highest nonce is kept. A missing total supply is the sum of the asset's balances.
+ */
+function copyState(state: StoredLedgerState, defaultAsset: string): LedgerState {
+  const balances: Balances = Object.fromEntries(Object.entries(balancesByAsset(state, defaultAsset))
+    .map(([asset, assetBalances]) => [asset, mergeByAddress(
+      Object.fromEntries(Object.entries(assetBalances)
+        .map(([address, balance]) => [address, BigInt(balance)])),
+      (first, second) => first + second,
+    )]));
+
+  const { totalSupply = {} } = state;
+  const storedSupply = typeof totalSupply === 'object'
+    ? totalSupply
+    : { [defaultAsset]: totalSupply };
+  const assets = new Set([...Object.keys(balances), ...Object.keys(storedSupply)]);
+
+  return {
+    balances,
+    nonces: mergeByAddress(state.nonces, Math.max),
+    multisig: mergeByAddress(state.multisig ?? {}, (first) => first),
+    totalSupply: Object.fromEntries([...assets].map((asset) => [
+      asset,
+      storedSupply[asset] !== undefined
+        ? BigInt(storedSupply[asset])
+        : sumBalances(balances[asset] ?? {}),
+    ])),
+    frozen: [...new Set((state.frozen ?? []).map((address) => address.toLowerCase()))],
+    freezeSignatures: [...(state.freezeSignatures ?? [])],
+  };
+}
+
+/**
+ * Count the balance entries of every asset (pure function)
+ */
+function countBalances(balances: Record<string, object>): number {
+  return Object.values(balances)
+    .reduce((count, assetBalances) => count + Object.keys(assetBalances).length, 0);
+}
+
+/**
+ * Move an unreadable storage file aside so it can be inspected later
+ */
+function quarantineFile(filePath: string): void {
+  const target = `${filePath}.corrupt-${Date.now()}`;
+  try {
+    fs.renameSync(filePath, target);
+    logger.warn(`Corrupted storage file moved to ${target}`);
+  } catch (error) {
+    logger.error('Failed to move corrupted storage file', error);
+  }
+}
+
+/**
+ * Load ledger state from disk, falling back to the initial state if the file
+ * is missing or corrupted
+ * `defaultAsset` owns the balances of a file written before assets existed
+ */
+export function loadState(
+  filePath: string,
+  initial: LedgerState,
+  defaultAsset: string,
+): LedgerState {
+  if (!fs.existsSync(filePath)) {
+    logger.info(`No storage file at ${filePath}, starting with initial state`);
+    return copyState(initial, defaultAsset);
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!isLedgerState(parsed)) {
+      throw new Error('Storage file does not contain balances and nonces');
+    }
+    logger.info(`Loaded state from ${filePath}`);
+
+    const state = copyState(parsed, defaultAsset);
+    if (countBalances(state.balances) !== countBalances(balancesByAsset(parsed, defaultAsset))
+      || Object.keys(state.nonces).length !== Object.keys(parsed.nonces).length) {
+      logger.warn('Merged accounts stored under addresses that differ only in letter case');
+    }
+    return state;
+  } catch (error) {
+    logger.error('Failed to read storage file, starting with initial state', error);
+    quarantineFile(filePath);
+    return copyState(initial, defaultAsset);
+  }
+}
+
+/**
+ * Write ledger state atomically: the data goes to a temp file which is fsynced
+ * and then renamed over the target, so a crash never leaves a partial file
+ * Amounts are written as decimal strings, which JSON numbers cannot hold exactly
+ */
+export function writeStateAtomic(filePath: string, state: LedgerState): void {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.tmp`);
+  const fd = fs.openSync(tempPath, 'w');
+
+  try {
+    fs.writeFileSync(fd, JSON.stringify(
+      state,
+      (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2,
+    ));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Create a store that loads state on startup and persists changes atomically
+ * `flushNow` writes at once and throws when the write fails; call it before
+ * acknowledging a change, so it survives a crash. `flush` writes once more on
+ * shutdown and logs a failure instead of throwing.
+ */
+export function createStateStore(
+  filePath: string,
+  initial: LedgerState,
+  defaultAsset: string,
+): StateStore {
+  const state = loadState(filePath, initial, defaultAsset);
+
+  const flushNow = (): void => {
+    writeStateAtomic(filePath, state);
+    logger.debug(`State saved to ${filePath}`);
+  };
+
+  const flush = (): void => {
+    try {
+      flushNow();
+    } catch (error) {
+      logger.error('Failed to save state', error);
+    }
+  };
+
+  return { state, flushNow, flush };
+}
@@ -0,0 +1,76 @@
+import { toChecksumAddress } from '@ecdsa-node/protocol';
+import { logger } from './logger/logger';
+import { appendJournal, readJournal } from './journal';
+import { SupplyEvent } from './types';
+
+export interface SupplyPage {
+  events: SupplyEvent[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface SupplyJournal {
+  append(entry: Omit<SupplyEvent, 'id' | 'timestamp'>): SupplyEvent;
+  getEvents(offset: number, limit: number, asset?: string): SupplyPage;
+  getAll(): readonly SupplyEvent[];
+}
+
+/**
+ * Write the account of a supply event with its EIP-55 checksum and its amounts
+ * as decimal strings, also for events journaled before accounts were
+ * checksummed or amounts were strings (pure function)
+ * Events journaled before the ledger had several assets are for the default one
+ */
+function formatEvent<T extends Pick<SupplyEvent, 'account' | 'amount' | 'totalSupply'>>(
+  event: T & { asset?: string },
+  defaultAsset: string,
+): T & { asset: string } {
+  return {
+    ...event,
+    asset: event.asset ?? defaultAsset,
+    ...(event.account ? { account: toChecksumAddress(event.account) } : {}),
+    amount: String(event.amount),
+    totalSupply: String(event.totalSupply),
+  };
+}
+
+/**
+ * Create an append-only log of total supply changes backed by a JSON Lines journal
+ */
+export function createSupplyJournal(filePath: string, defaultAsset: string): SupplyJournal {
+  const events = readJournal<SupplyEvent>(filePath)
+    .map((event) => formatEvent(event, defaultAsset));
+  logger.info(`Loaded ${events.length} supply events from ${filePath}`);
+
+  const append = (entry: Omit<SupplyEvent, 'id' | 'timestamp'>): SupplyEvent => {
+    const lastEvent = events[events.length - 1];
+    const event: SupplyEvent = {
+      id: (lastEvent?.id ?? 0) + 1,
+      ...formatEvent(entry, defaultAsset),
+      timestamp: Date.now(),
+    };
+
+    appendJournal(filePath, event);
+    events.push(event);
+
+    return event;
+  };
+
+  const getEvents = (offset: number, limit: number, asset?: string): SupplyPage => {
+    const newestFirst = events
+      .filter((event) => asset === undefined || event.asset === asset)
+      .reverse();
+
+    return {
+      events: newestFirst.slice(offset, offset + limit),
+      total: newestFirst.length,
+      offset,
+      limit,
+    };
+  };
+
+  const getAll = (): readonly SupplyEvent[] => events;
+
+  return { append, getEvents, getAll };
+}
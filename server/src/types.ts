@@ -1,38 +1,81 @@
-export interface TransactionMessage {
-  sender: string;
+import { Amount, MultisigAccount } from '@ecdsa-node/protocol';
+
+// Message, request, response and error types are shared with the client
+export {
+  AccountBalances,
+  AccountPolicy,
+  AccountProof,
+  AdminAction,
+  AdminRequestBody,
+  Amount,
+  AssetBalance,
+  AssetInfo,
+  AssetSupply,
+  BatchTransferMessage,
+  Block,
+  ErrorCode,
+  ErrorResponse,
+  MessageVersion,
+  MultisigAccount,
+  MultisigAccountInfo,
+  PendingTransaction,
+  RejectedEvent,
+  SendRequestBody,
+  ServerEvents,
+  ServerEventType,
+  SignedStateCommitment,
+  StateCommitment,
+  StateProof,
+  TransactionMessage,
+  TransactionPage,
+  TransactionRecord,
+  TransferEntry,
+  TransferMessage,
+} from '@ecdsa-node/protocol';
+
+/**
+ * One leg of a transfer as applied to the ledger, with a lowercase recipient
+ * and the amount in base units
+ */
+export interface LedgerTransfer {
   recipient: string;
-  amount: number;
-  nonce: number;
-  timestamp?: number;
+  amount: bigint;
 }
 
-export interface SendRequestBody {
-  message: TransactionMessage;
-  signature: string;
-  messageHash: string;
+/**
+ * Journal entry for every change to the total supply
+ * A genesis entry records the allocation the ledger started from (or was reset to)
+ */
+export interface SupplyEvent {
+  id: number;
+  type: 'genesis' | 'mint' | 'burn' | 'faucet';
+  /** Symbol of the asset whose supply changed */
+  asset: string;
+  account?: string;
+  amount: Amount;
+  totalSupply: Amount;
+  signature?: string;
+  timestamp: number;
 }
 
-export type Balances = {
-  [address: string]: number;
+export type MultisigAccounts = {
+  [address: string]: MultisigAccount;
 };
 
-export type Nonces = {
-  [address: string]: number;
+/**
+ * Balances of one asset, keyed by lowercase address
+ */
+export type AddressBalances = {
+  [address: string]: bigint;
 };
 
-export enum ErrorCode {
-  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
-  INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
-  INVALID_HASH = 'INVALID_HASH',
-  INVALID_ADDRESS = 'INVALID_ADDRESS',
-  INVALID_NONCE = 'INVALID_NONCE',
-  INVALID_AMOUNT = 'INVALID_AMOUNT',
-  SELF_TRANSFER = 'SELF_TRANSFER',
-  INTERNAL_ERROR = 'INTERNAL_ERROR',
-}
+/**
+ * Balances of every asset, keyed by asset symbol
+ */
+export type Balances = {
+  [asset: string]: AddressBalances;
+};
 
-export type ErrorResponse = {
-  code: ErrorCode | string;
-  message: string;
-  details?: unknown;
+export type Nonces = {
+  [address: string]: number;
 };
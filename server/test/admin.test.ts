@@ -0,0 +1,106 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { signAdminAction } from '@ecdsa-node/protocol';
+import { AdminAction, ErrorCode } from '../src/types';
+import { startServer, TestServer } from './server';
+
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const INVALID_SIGNATURE = `${'ab'.repeat(64)}00`;
+
+describe('admin supply API and faucet', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ FAUCET_AMOUNT: '5', ASSETS: 'GOLD:0' });
+  });
+  after(() => server.stop());
+
+  /**
+   * Post a mint whose fields are checked before its signature
+   */
+  const postMint = async (fields: Record<string, unknown>) => {
+    const { body: info } = await server.get<{ chainId: number }>('/info');
+    return server.post('/admin/mint', {
+      action: {
+        type: 'mint',
+        chainId: info.chainId,
+        account: A,
+        amount: '10',
+        timestamp: Date.now(),
+        ...fields,
+      },
+      signature: INVALID_SIGNATURE,
+    });
+  };
+
+  for (const [name, fields, code] of [
+    ['an amount that is not a decimal string', { amount: 'abc' }, ErrorCode.INVALID_AMOUNT],
+    ['a numeric amount', { amount: 10 }, ErrorCode.INVALID_AMOUNT],
+    ['a zero amount', { amount: '0' }, ErrorCode.INVALID_AMOUNT],
+    ['an account that is not an address', { account: 'nothex' }, ErrorCode.INVALID_ADDRESS],
+    ['an account with a wrong checksum', { account: A.replace('19E7', '19e7') }, ErrorCode.INVALID_ADDRESS],
+    ['an unknown asset', { asset: 'SILVER' }, ErrorCode.INVALID_ASSET],
+  ] as const) {
+    it(`refuses a mint with ${name} with 400 ${code}`, async () => {
+      const { status, body } = await postMint(fields);
+      assert.equal(status, 400);
+      assert.equal(body.code, code);
+    });
+  }
+
+  it('refuses an action that is not signed by the admin key', async () => {
+    const { body: info } = await server.get<{ chainId: number }>('/info');
+    const action: AdminAction = {
+      type: 'mint',
+      chainId: info.chainId,
+      account: A,
+      amount: '10',
+      timestamp: Date.now(),
+    };
+    const { status, body } = await server.post('/admin/mint', {
+      action,
+      signature: await signAdminAction(action, '11'.repeat(32)),
+    });
+    assert.equal(status, 401);
+    assert.equal(body.code, ErrorCode.UNAUTHORIZED);
+  });
+
+  it('mints and burns, and refuses to replay an action or burn more than the balance', async () => {
+    const minted = await server.admin<{ balance: string; totalSupply: string }>('mint', {
+      account: A,
+      asset: 'GOLD',
+      amount: '10',
+    });
+    assert.equal(minted.status, 200);
+    assert.deepEqual([minted.body.balance, minted.body.totalSupply], ['10', '10']);
+
+    const replayed = await server.post('/admin/mint', minted.request);
+    assert.equal(replayed.body.code, ErrorCode.DUPLICATE_SIGNATURE);
+
+    const burned = await server.admin<{ balance: string }>('burn', {
+      account: A,
+      asset: 'GOLD',
+      amount: '4',
+    });
+    assert.equal(burned.body.balance, '6');
+
+    const overdrawn = await server.admin('burn', { account: A, asset: 'GOLD', amount: '7' });
+    assert.equal(overdrawn.body.code, ErrorCode.INSUFFICIENT_FUNDS);
+
+    const { body: supply } = await server.get<{ totalSupply: string; events: { type: string }[] }>(
+      '/supply?asset=GOLD',
+    );
+    assert.equal(supply.totalSupply, '6');
+    assert.deepEqual(supply.events.map(({ type }) => type), ['burn', 'mint']);
+  });
+
+  it('pays out the faucet once per address and IP per cooldown', async () => {
+    const first = await server.post<{ amount: string }>('/faucet', { address: A });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.amount, '5');
+
+    const second = await server.post('/faucet', { address: A });
+    assert.equal(second.status, 429);
+    assert.equal(second.body.code, ErrorCode.RATE_LIMITED);
+  });
+});
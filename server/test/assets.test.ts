@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAssetRegistry, formatAsset } from '../src/assets';
+import { ErrorCode } from '../src/types';
+
+const registry = createAssetRegistry({
+  symbol: 'TOKEN',
+  decimals: 18,
+  maxTransactionAmount: 1000n,
+  feeBase: 2n,
+  feePerByte: 1n,
+  assets: [
+    { symbol: 'USDC', decimals: 6, maxTransactionAmount: 5000n, feeBase: 10n },
+    { symbol: 'GOLD', decimals: 0 },
+  ],
+});
+
+describe('createAssetRegistry', () => {
+  it('lists the default asset first, then the configured ones in order', () => {
+    assert.equal(registry.defaultAsset, 'TOKEN');
+    assert.deepEqual(registry.list().map(({ symbol }) => symbol), ['TOKEN', 'USDC', 'GOLD']);
+  });
+
+  it('gives extra assets the default limit and fees they do not set', () => {
+    assert.deepEqual(registry.get('USDC'), {
+      symbol: 'USDC',
+      decimals: 6,
+      maxTransactionAmount: 5000n,
+      fee: { base: 10n, perByte: 1n },
+    });
+    assert.deepEqual(registry.get('GOLD'), {
+      symbol: 'GOLD',
+      decimals: 0,
+      maxTransactionAmount: 1000n,
+      fee: { base: 2n, perByte: 1n },
+    });
+    assert.equal(registry.get('SILVER'), undefined);
+  });
+
+  it('resolves a missing symbol to the default asset', () => {
+    assert.equal(registry.resolve(undefined).symbol, 'TOKEN');
+    assert.equal(registry.resolve('GOLD').symbol, 'GOLD');
+  });
+
+  it('refuses unknown, miscapitalized and non-string symbols with INVALID_ASSET', () => {
+    for (const symbol of ['SILVER', 'gold', 42, null, '']) {
+      assert.throws(() => registry.resolve(symbol), (error: unknown) => {
+        const { code, details } = error as { code?: string; details?: Record<string, unknown> };
+        return code === ErrorCode.INVALID_ASSET
+          && details?.received === symbol
+          && (details.supported as string[]).join() === 'TOKEN,USDC,GOLD';
+      });
+    }
+  });
+});
+
+describe('formatAsset', () => {
+  it('writes the limit and fees as decimal strings', () => {
+    assert.deepEqual(formatAsset(registry.resolve('USDC')), {
+      symbol: 'USDC',
+      decimals: 6,
+      maxTransactionAmount: '5000',
+      fee: { base: '10', perByte: '1' },
+    });
+  });
+});
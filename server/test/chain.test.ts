@@ -0,0 +1,152 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import {
+  computeMerkleRoot,
+  createBlockchain,
+  verifyChain,
+} from '../src/chain';
+import { appendJournal, readJournal } from '../src/journal';
+import { setLogLevel } from '../src/logger/logger';
+import { Block } from '../src/types';
+
+setLogLevel('error');
+
+const ZERO_HASH = '0'.repeat(64);
+const hashes = ['aa', 'bb', 'cc', 'dd', 'ee'].map((byte) => byte.repeat(32));
+
+const createBlocksFile = (): string =>
+  path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'chain-')), 'blocks.jsonl');
+
+const openChain = (filePath: string, knownTransactions: readonly string[] = []) =>
+  createBlockchain({
+    filePath,
+    maxBlockSize: 2,
+    blockInterval: 60_000,
+    knownTransactions,
+  });
+
+const hashPair = (left: string, right: string): string =>
+  secp.etc.bytesToHex(keccak_256(secp.etc.hexToBytes(left + right)));
+
+describe('computeMerkleRoot', () => {
+  it('is the zero hash for no transactions and the hash itself for one', () => {
+    assert.equal(computeMerkleRoot([]), ZERO_HASH);
+    assert.equal(computeMerkleRoot([`0x${hashes[0]}`]), hashes[0]);
+  });
+
+  it('pairs the last node with itself on odd levels', () => {
+    const [a, b, c] = hashes;
+    assert.equal(
+      computeMerkleRoot([a, b, c]),
+      hashPair(hashPair(a, b), hashPair(c, c)),
+    );
+  });
+});
+
+describe('createBlockchain', () => {
+  it('starts with a genesis block and seals full blocks at once', () => {
+    const sealed: Block[] = [];
+    const chain = createBlockchain({
+      filePath: createBlocksFile(),
+      maxBlockSize: 2,
+      blockInterval: 60_000,
+      knownTransactions: [],
+      onSeal: (block) => sealed.push(block),
+    });
+
+    const genesis = chain.getHead();
+    assert.equal(genesis.height, 0);
+    assert.equal(genesis.previousHash, ZERO_HASH);
+
+    chain.addTransaction(hashes[0]);
+    assert.equal(chain.getPendingCount(), 1);
+    chain.addTransaction(hashes[1]);
+    chain.stop();
+
+    assert.equal(sealed.length, 1);
+    assert.deepEqual(chain.getHead(), sealed[0]);
+    assert.equal(sealed[0].previousHash, genesis.hash);
+    assert.deepEqual(sealed[0].transactions, hashes.slice(0, 2));
+  });
+
+  it('seals what is pending on stop and reloads the verified chain', () => {
+    const filePath = createBlocksFile();
+    const chain = openChain(filePath);
+    hashes.forEach((hash) => chain.addTransaction(hash));
+    chain.stop();
+
+    const reloaded = openChain(filePath);
+    reloaded.stop();
+    assert.equal(reloaded.getHead().height, 3);
+    assert.deepEqual(reloaded.getBlocks(0, 2).blocks.map(({ height }) => height), [3, 2]);
+    const journaled = readJournal<Block>(filePath).flatMap(({ transactions }) => transactions);
+    assert.deepEqual(journaled, hashes);
+  });
+
+  it('puts known transactions that never made it into a block back into the pending pool', () => {
+    const filePath = createBlocksFile();
+    const chain = openChain(filePath);
+    chain.addTransaction(hashes[0]);
+    chain.addTransaction(hashes[1]);
+    chain.stop();
+
+    const reloaded = openChain(filePath, hashes.slice(0, 3));
+    assert.equal(reloaded.getPendingCount(), 1);
+    reloaded.stop();
+    assert.deepEqual(reloaded.getHead().transactions, [hashes[2]]);
+  });
+
+  it('refuses to load a chain whose blocks were changed', () => {
+    const filePath = createBlocksFile();
+    const chain = openChain(filePath);
+    hashes.slice(0, 4).forEach((hash) => chain.addTransaction(hash));
+    chain.stop();
+
+    const [genesis, first, second] = readJournal<Block>(filePath);
+    const tampered = { ...first, transactions: [hashes[4], first.transactions[1]] };
+    fs.writeFileSync(filePath, '');
+    [genesis, tampered, second].forEach((block) => appendJournal(filePath, block));
+
+    assert.throws(() => openChain(filePath), /Block 1: merkle root does not match/);
+  });
+});
+
+describe('verifyChain', () => {
+  const filePath = createBlocksFile();
+  const chain = openChain(filePath);
+  hashes.slice(0, 4).forEach((hash) => chain.addTransaction(hash));
+  chain.stop();
+  const blocks = readJournal<Block>(filePath);
+
+  it('accepts an untouched chain', () => {
+    assert.doesNotThrow(() => verifyChain(blocks));
+  });
+
+  it('rejects a changed header, a broken link and a gap in heights', () => {
+    const [genesis, first, second] = blocks;
+    assert.throws(
+      () => verifyChain([genesis, { ...first, timestamp: first.timestamp + 1 }, second]),
+      /Block 1: hash does not match its header/,
+    );
+    assert.throws(
+      () => verifyChain([genesis, first, { ...second, previousHash: genesis.hash }]),
+      /Block 2: previous hash does not match block 1/,
+    );
+    assert.throws(() => verifyChain([genesis, second]), /Block 1: expected height 1, got 2/);
+  });
+});
+
+describe('readJournal', () => {
+  it('skips a partial last line left behind by a crash mid-append', () => {
+    const filePath = createBlocksFile();
+    appendJournal(filePath, { id: 1 });
+    fs.appendFileSync(filePath, '{"id": 2, "hal');
+
+    assert.deepEqual(readJournal(filePath), [{ id: 1 }]);
+  });
+});
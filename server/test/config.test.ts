@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config';
+import { ConfigError } from '../src/errors';
+
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const B = '0x1563915e194d8cfba1943570603f7606a3115508';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+const GENESIS_FILE = path.join(dir, 'genesis.json');
+fs.writeFileSync(GENESIS_FILE, JSON.stringify({ balances: { [A]: 100 } }));
+
+/**
+ * Write a config file and return the environment pointing at it
+ */
+const withConfigFile = (name: string, content: string): NodeJS.ProcessEnv => {
+  const configFile = path.join(dir, name);
+  fs.writeFileSync(configFile, content);
+  return { CONFIG_FILE: configFile };
+};
+
+/**
+ * Load a config that must fail and return the problems it reports
+ */
+const getProblems = (env: NodeJS.ProcessEnv): string[] => {
+  try {
+    loadConfig({ GENESIS_FILE, ...env });
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.problems;
+  }
+  throw new Error('Expected a ConfigError');
+};
+
+describe('loadConfig', () => {
+  it('uses the defaults when nothing is set', () => {
+    const config = loadConfig({ GENESIS_FILE });
+
+    assert.equal(config.port, 3042);
+    assert.equal(config.chainId, 1337);
+    assert.equal(config.symbol, 'TOKEN');
+    assert.equal(config.maxTransactionAmount, 1000000n);
+    assert.deepEqual(config.assets, []);
+    assert.equal(config.feeRecipient, undefined);
+    assert.deepEqual(config.genesis, { balances: { [A.toLowerCase()]: 100n } });
+  });
+
+  it('reads a YAML file and lets the environment override it', () => {
+    const config = loadConfig({
+      ...withConfigFile('config.yaml', [
+        'port: 4000',
+        'chainId: 5',
+        'maxTransactionAmount: "123456789012345678901234567890"',
+        `feeRecipient: "${A}"`,
+        'feeBase: 2',
+      ].join('\n')),
+      GENESIS_FILE,
+      PORT: '5000',
+    });
+
+    assert.equal(config.port, 5000);
+    assert.equal(config.chainId, 5);
+    assert.equal(config.maxTransactionAmount, 123456789012345678901234567890n);
+    assert.equal(config.feeRecipient, A.toLowerCase());
+    assert.equal(config.feeBase, 2n);
+  });
+
+  it('reads assets, policies and an inline genesis from a JSON file', () => {
+    const config = loadConfig(withConfigFile('config.json', JSON.stringify({
+      assets: [{ symbol: 'USDC', decimals: 6, feeBase: '10' }],
+      policies: [{ account: '*', spendingLimit: { amount: '50', asset: 'USDC' } }],
+      feeRecipient: B,
+      genesis: { balances: { [B]: '7' } },
+    })));
+
+    assert.deepEqual(config.assets, [{ symbol: 'USDC', decimals: 6, feeBase: 10n }]);
+    assert.deepEqual(config.policies[0].spendingLimit, {
+      asset: 'USDC',
+      amount: 50n,
+      window: 24 * 60 * 60 * 1000,
+    });
+    assert.deepEqual(config.genesis, { balances: { [B]: 7n } });
+    assert.equal(config.genesisFile, undefined);
+  });
+
+  it('parses ASSETS from the environment as SYMBOL:decimals[:maxTransactionAmount]', () => {
+    const { assets } = loadConfig({ GENESIS_FILE, ASSETS: 'USDC:6:1000000000000,GOLD:0' });
+
+    assert.deepEqual(assets, [
+      { symbol: 'USDC', decimals: 6, maxTransactionAmount: 1000000000000n },
+      { symbol: 'GOLD', decimals: 0 },
+    ]);
+  });
+
+  it('reports every problem together', () => {
+    const problems = getProblems({
+      ...withConfigFile('problems.json', JSON.stringify({ port: 0, colour: 'blue' })),
+      CHAIN_ID: 'one',
+      ADMIN_ADDRESS: 'nothex',
+    });
+
+    assert.equal(problems.length, 4);
+    assert.match(problems.join('\n'), /unknown setting "colour"/);
+    assert.match(problems.join('\n'), /port must be an integer between 1 and 65535/);
+    assert.match(problems.join('\n'), /CHAIN_ID must be an integer of at least 1/);
+    assert.match(problems.join('\n'), /ADMIN_ADDRESS must be a 0x-prefixed address/);
+  });
+
+  it('refuses fees without a fee recipient', () => {
+    assert.deepEqual(getProblems({ FEE_PER_BYTE: '1' }), ['feeRecipient must be set to charge fees']);
+    assert.deepEqual(
+      getProblems({ ASSETS: 'GOLD:0', POLICIES: JSON.stringify([
+        { account: '*', spendingLimit: { amount: '1', asset: 'SILVER' } },
+      ]) }),
+      ['policies entry 1 limits unknown asset SILVER'],
+    );
+  });
+
+  it('refuses an asset list naming the default asset, and two genesis sources', () => {
+    assert.deepEqual(
+      getProblems({ ASSETS: 'TOKEN:2' }),
+      ['assets must not list the default asset TOKEN'],
+    );
+
+    const env = withConfigFile('genesis-twice.json', JSON.stringify({
+      genesis: { balances: {} },
+      genesisFile: GENESIS_FILE,
+    }));
+    assert.match(getProblems({ ...env, GENESIS_FILE: '' }).join('\n'), /either genesis or genesisFile/);
+  });
+
+  it('reports an unreadable config file or genesis file', () => {
+    assert.match(
+      getProblems(withConfigFile('broken.yaml', 'port: [')).join('\n'),
+      /broken\.yaml: /,
+    );
+    assert.match(
+      getProblems({ GENESIS_FILE: path.join(dir, 'missing.json') }).join('\n'),
+      /ENOENT/,
+    );
+  });
+});
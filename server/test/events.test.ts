@@ -0,0 +1,110 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RejectedEvent, signTransactionMessage, TransferMessage } from '@ecdsa-node/protocol';
+import { ErrorCode } from '../src/types';
+import { startServer, TestServer } from './server';
+
+const A_KEY = '11'.repeat(32);
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const B = '0x1563915e194D8CfBA1943570603F7606A3115508';
+
+interface StreamedEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Follow GET /events for the given address; `next` resolves with the next
+ * event once the stream has been connected
+ */
+async function followEvents(server: TestServer, address: string) {
+  const controller = new AbortController();
+  const response = await fetch(`${server.url}/events?address=${address}`, {
+    signal: controller.signal,
+  });
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+
+  const next = async (): Promise<StreamedEvent> => {
+    const end = buffered.indexOf('\n\n');
+    if (end === -1) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error('Event stream closed');
+      buffered += value;
+      return next();
+    }
+
+    const frame = buffered.slice(0, end);
+    buffered = buffered.slice(end + 2);
+    if (frame.startsWith(':')) return next();
+
+    const fields = Object.fromEntries(frame.split('\n').map((line) => {
+      const separator = line.indexOf(': ');
+      return [line.slice(0, separator), line.slice(separator + 2)];
+    }));
+    return { event: fields.event, data: JSON.parse(fields.data) };
+  };
+
+  return { next, close: () => controller.abort() };
+}
+
+describe('rejected events', () => {
+  let server: TestServer;
+  let chainId: number;
+
+  before(async () => {
+    server = await startServer();
+    ({ body: { chainId } } = await server.get<{ chainId: number }>('/info'));
+  });
+  after(() => server.stop());
+
+  const transfer = (fields: Partial<TransferMessage> = {}): TransferMessage => ({
+    chainId,
+    sender: A,
+    recipient: B,
+    amount: '1',
+    nonce: 1,
+    timestamp: Date.now(),
+    ...fields,
+  });
+
+  it('tells the sender about transactions POST /send refuses once they are well-formed', async () => {
+    const stream = await followEvents(server, A);
+
+    try {
+      const signed = await signTransactionMessage(transfer(), A_KEY);
+      const malformed = await server.post('/send', {
+        ...signed,
+        messageHash: `0x${'0'.repeat(64)}`,
+      });
+      assert.equal(malformed.status, 400);
+
+      const forged = await signTransactionMessage(transfer(), '22'.repeat(32));
+      const badSignature = await server.post('/send', forged);
+      assert.equal(badSignature.body.code, ErrorCode.INVALID_SIGNATURE);
+
+      const unfunded = await signTransactionMessage(transfer({ amount: '2' }), A_KEY);
+      const insufficient = await server.post('/send', unfunded);
+      assert.equal(insufficient.body.code, ErrorCode.INSUFFICIENT_FUNDS);
+
+      // The malformed request published nothing, so the bad signature comes first
+      const first = await stream.next();
+      assert.equal(first.event, 'rejected');
+      assert.deepEqual(first.data, {
+        address: A,
+        messageHash: forged.messageHash,
+        nonce: 1,
+        pending: false,
+        code: ErrorCode.INVALID_SIGNATURE,
+        message: badSignature.body.message,
+      });
+
+      const second = await stream.next();
+      assert.equal(second.event, 'rejected');
+      assert.equal((second.data as RejectedEvent).messageHash, unfunded.messageHash);
+      assert.equal((second.data as RejectedEvent).code, ErrorCode.INSUFFICIENT_FUNDS);
+    } finally {
+      stream.close();
+    }
+  });
+});
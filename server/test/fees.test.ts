@@ -0,0 +1,75 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SendAcceptedResponse,
+  signTransactionMessage,
+  toChecksumAddress,
+  TransferMessage,
+  verifyReceipt,
+} from '@ecdsa-node/protocol';
+import { ErrorCode } from '../src/types';
+import { ADMIN_ADDRESS, startServer, TestServer } from './server';
+
+const A_KEY = '11'.repeat(32);
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const B = '0x1563915e194D8CfBA1943570603F7606A3115508';
+// Any account can collect fees; the admin's is one the tests already know
+const FEE_RECIPIENT = toChecksumAddress(ADMIN_ADDRESS);
+
+describe('transaction fees', () => {
+  let server: TestServer;
+  let chainId: number;
+  let receiptSigner: string;
+
+  before(async () => {
+    server = await startServer({ FEE_RECIPIENT, FEE_BASE: '3' });
+    ({ body: { chainId, receiptSigner } } = await server.get<{
+      chainId: number;
+      receiptSigner: string;
+    }>('/info'));
+    await server.admin('mint', { account: A, amount: '100' });
+  });
+  after(() => server.stop());
+
+  const transfer = (fields: Partial<TransferMessage> = {}): TransferMessage => ({
+    chainId,
+    sender: A,
+    recipient: B,
+    amount: '10',
+    nonce: 1,
+    timestamp: Date.now(),
+    ...fields,
+  });
+
+  it('refuses a transfer paying less than the fee schedule asks for', async () => {
+    for (const fee of [undefined, '2']) {
+      const { status, body } = await server.post('/send', await signTransactionMessage(
+        transfer({ fee }),
+        A_KEY,
+      ));
+      assert.equal(status, 400);
+      assert.equal(body.code, ErrorCode.INVALID_FEE);
+      assert.equal(body.details?.required, '3');
+    }
+  });
+
+  it('credits the fee and lists it with the fee recipient\'s balance in the receipt', async () => {
+    const request = await signTransactionMessage(transfer({ fee: '3' }), A_KEY);
+    const { status, body } = await server.post<SendAcceptedResponse>('/send', request);
+    assert.equal(status, 200);
+    assert.equal(body.balance, '87');
+    assert.equal(body.fee, '3');
+
+    const receipt = verifyReceipt(body.receipt, receiptSigner, request.messageHash);
+    assert.equal(receipt.asset, 'TOKEN');
+    assert.equal(receipt.fee, '3');
+    assert.deepEqual(receipt.balances, [
+      { account: A, balance: '87' },
+      { account: B, balance: '10' },
+      { account: FEE_RECIPIENT, balance: '3' },
+    ]);
+
+    const { body: again } = await server.get(`/receipt/${request.messageHash}`);
+    assert.deepEqual(again, body.receipt);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGenesis, sumBalances } from '../src/genesis';
+
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const B = '0x1563915e194d8cfba1943570603f7606a3115508';
+
+describe('parseGenesis', () => {
+  it('lowercases addresses and reads integer and decimal string balances', () => {
+    const { balances } = parseGenesis({ balances: { [A]: 100, [B]: '2'.repeat(30) } }, 'test');
+
+    assert.deepEqual(balances, { [A.toLowerCase()]: 100n, [B]: BigInt('2'.repeat(30)) });
+    assert.equal(sumBalances(balances), 100n + BigInt('2'.repeat(30)));
+  });
+
+  it('rejects a missing balances object', () => {
+    assert.throws(() => parseGenesis(null, 'test'), /must contain a balances object/);
+    assert.throws(() => parseGenesis({ balances: [] }, 'test'), /must contain a balances object/);
+  });
+
+  it('rejects bad addresses, bad amounts and an address listed twice', () => {
+    for (const balances of [
+      { nothex: 1 },
+      { [A.replace('19E7', '19e7')]: 1 },
+      { [A]: -1 },
+      { [A]: 1.5 },
+      { [A]: '0x10' },
+    ]) {
+      assert.throws(() => parseGenesis({ balances }, 'test'), /Invalid genesis allocation in test/);
+    }
+    assert.throws(
+      () => parseGenesis({ balances: { [A]: 1, [A.toLowerCase()]: 2 } }, 'test'),
+      /Duplicate genesis address in test/,
+    );
+  });
+});
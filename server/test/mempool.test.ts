@@ -0,0 +1,116 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMempool, Mempool, MempoolOptions } from '../src/mempool';
+import { setLogLevel } from '../src/logger/logger';
+import { ErrorCode, PendingTransaction, SendRequestBody } from '../src/types';
+
+setLogLevel('error');
+
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const B = '0x1563915e194D8CfBA1943570603F7606A3115508';
+const FAR_FUTURE = Date.now() + 24 * 60 * 60 * 1000;
+
+const request = (sender: string, nonce: number, amount = '1'): SendRequestBody => ({
+  message: {
+    version: 2,
+    chainId: 1337,
+    sender,
+    recipient: B,
+    amount,
+    nonce,
+    timestamp: Date.now(),
+  },
+  signature: `${'ab'.repeat(64)}0${nonce % 2}`,
+  messageHash: String(nonce).padStart(64, '0'),
+});
+
+const wait = (milliseconds: number) =>
+  new Promise((resolve) => { setTimeout(resolve, milliseconds); });
+
+describe('createMempool', () => {
+  const pools: Mempool[] = [];
+  const openPool = (options: Partial<MempoolOptions> = {}): Mempool => {
+    const pool = createMempool({
+      ttl: 60_000,
+      maxPerSender: 3,
+      sweepInterval: 60_000,
+      ...options,
+    });
+    pools.push(pool);
+    return pool;
+  };
+
+  afterEach(() => pools.splice(0).forEach((pool) => pool.stop()));
+
+  it('hands pending transactions out by sender and nonce, once each', () => {
+    const pool = openPool();
+    pool.add(request(A, 3), FAR_FUTURE);
+    pool.add(request(A, 2), FAR_FUTURE);
+
+    assert.equal(pool.take(A, 4), undefined);
+    assert.equal(pool.take(A.toLowerCase(), 2)?.message.nonce, 2);
+    assert.equal(pool.take(A, 2), undefined);
+    assert.equal(pool.take(A, 3)?.message.nonce, 3);
+    assert.deepEqual(pool.getAll(), []);
+  });
+
+  it('lists entries sorted by sender and nonce', () => {
+    const pool = openPool();
+    [[B, 5], [A, 4], [A, 2]].forEach(([sender, nonce]) =>
+      pool.add(request(sender as string, nonce as number), FAR_FUTURE));
+
+    const list = (entries: PendingTransaction[]) =>
+      entries.map(({ message }) => [message.sender, message.nonce]);
+    assert.deepEqual(list(pool.getAll()), [[B, 5], [A, 2], [A, 4]]);
+    assert.deepEqual(list(pool.getByAddress(A.toLowerCase())), [[A, 2], [A, 4]]);
+  });
+
+  it('replaces the transaction waiting with the same nonce', () => {
+    const pool = openPool();
+    assert.equal(pool.add(request(A, 2), FAR_FUTURE).replaced, false);
+    assert.equal(pool.add(request(A, 2, '5'), FAR_FUTURE).replaced, true);
+
+    assert.equal(pool.getByAddress(A).length, 1);
+    assert.equal(pool.take(A, 2)?.message.amount, '5');
+  });
+
+  it('refuses more than maxPerSender transactions per sender, but still takes replacements', () => {
+    const pool = openPool({ maxPerSender: 2 });
+    pool.add(request(A, 2), FAR_FUTURE);
+    pool.add(request(A, 3), FAR_FUTURE);
+
+    assert.throws(() => pool.add(request(A, 4), FAR_FUTURE), (error: unknown) =>
+      (error as { code?: string }).code === ErrorCode.MEMPOOL_FULL);
+    assert.doesNotThrow(() => pool.add(request(A, 3, '2'), FAR_FUTURE));
+    assert.doesNotThrow(() => pool.add(request(B, 2), FAR_FUTURE));
+  });
+
+  it('expires entries after the ttl or their own deadline, whichever comes first', async () => {
+    const expired: number[] = [];
+    const pool = openPool({
+      ttl: 40,
+      onExpire: (entry) => expired.push(entry.message.nonce),
+    });
+    const { entry } = pool.add(request(A, 2), Date.now() + 10);
+    pool.add(request(A, 3), FAR_FUTURE);
+    assert.equal(entry.expiresAt, entry.receivedAt + 10);
+
+    await wait(20);
+    assert.deepEqual(pool.getByAddress(A).map(({ message }) => message.nonce), [3]);
+    await wait(40);
+    assert.equal(pool.take(A, 3), undefined);
+    assert.deepEqual(expired, [2, 3]);
+  });
+
+  it('sweeps expired entries on its own', async () => {
+    const expired: number[] = [];
+    openPool({
+      ttl: 10,
+      sweepInterval: 5,
+      onExpire: (entry) => expired.push(entry.message.nonce),
+    }).add(request(A, 2), FAR_FUTURE);
+
+    await wait(40);
+    assert.deepEqual(expired, [2]);
+  });
+});
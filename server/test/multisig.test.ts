@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as secp from '@noble/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import {
+  computeMultisigAddress,
+  MAX_MULTISIG_OWNERS,
+  normalizeMultisigAccount,
+} from '../src/multisig';
+import { ErrorCode } from '../src/types';
+
+const A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+const B = '0x1563915e194D8CfBA1943570603F7606A3115508';
+const C = '0x5cbdd86a2fa8dc4bddd8a8f69dba48572eec07fb';
+
+const rejectsWith = (owners: unknown, threshold: unknown, message: RegExp) =>
+  assert.throws(() => normalizeMultisigAccount(owners, threshold), (error: unknown) => {
+    const { code, message: text } = error as { code?: string; message: string };
+    return code === ErrorCode.INVALID_MULTISIG && message.test(text);
+  });
+
+describe('normalizeMultisigAccount', () => {
+  it('lowercases and sorts the owners', () => {
+    assert.deepEqual(normalizeMultisigAccount([A, C, B], 2), {
+      owners: [B, A, C].map((owner) => owner.toLowerCase()),
+      threshold: 2,
+    });
+  });
+
+  it('rejects missing, malformed, miscapitalized and too many owners', () => {
+    const wrongChecksum = A.replace('19E7', '19e7');
+    const tooMany = Array.from({ length: MAX_MULTISIG_OWNERS + 1 }, (_, index) =>
+      `0x${(index + 1).toString(16).padStart(40, '0')}`);
+
+    rejectsWith([], 1, /Invalid owners/);
+    rejectsWith(A, 1, /Invalid owners/);
+    rejectsWith([A, 'nothex'], 1, /Invalid owners/);
+    rejectsWith([wrongChecksum], 1, /Invalid owners/);
+    rejectsWith(tooMany, 1, /Invalid owners/);
+  });
+
+  it('rejects an owner listed twice, in any letter case', () => {
+    rejectsWith([A, A.toLowerCase()], 1, /duplicate address/);
+  });
+
+  it('rejects a threshold outside 1 to the number of owners', () => {
+    rejectsWith([A, B], 0, /between 1 and 2/);
+    rejectsWith([A, B], 3, /between 1 and 2/);
+    rejectsWith([A, B], 1.5, /between 1 and 2/);
+    rejectsWith([A, B], '2', /between 1 and 2/);
+  });
+});
+
+describe('computeMultisigAddress', () => {
+  it('hashes the prefix, the threshold and the sorted owners', () => {
+    const account = normalizeMultisigAccount([A, B], 2);
+    const expected = keccak_256(secp.etc.concatBytes(
+      new TextEncoder().encode('ECDSA Node multisig'),
+      secp.etc.hexToBytes(`${'0'.repeat(63)}2`),
+      ...account.owners.map((owner) => secp.etc.hexToBytes(owner.slice(2))),
+    ));
+
+    assert.equal(computeMultisigAddress(account), `0x${secp.etc.bytesToHex(expected.slice(-20))}`);
+  });
+
+  it('gives the same address for any owner order and a new one for another threshold', () => {
+    const address = computeMultisigAddress(normalizeMultisigAccount([A, B, C], 2));
+
+    assert.equal(computeMultisigAddress(normalizeMultisigAccount([C, A, B], 2)), address);
+    assert.notEqual(computeMultisigAddress(normalizeMultisigAccount([A, B, C], 3)), address);
+  });
+});
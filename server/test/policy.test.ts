@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PolicyRule } from '../src/config';
+import { createPolicyEngine, PolicyEngineOptions } from '../src/policy';
+import {
+  AccountPolicy,
+  ErrorCode,
+  TransactionRecord,
+  TransferMessage,
+} from '../src/types';
+import { startServer } from './server';
+
+const A = '0x19e7e376e7c213b7e7e7e46cc70a5dd086daff2a';
+const B = '0x1563915e194d8cfba1943570603f7606a3115508';
+const C = '0x5cbdd86a2fa8dc4bddd8a8f69dba48572eec07fb';
+const FEE_RECIPIENT = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const NOW = 1_760_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+const transfer = (fields: Partial<TransferMessage> = {}): TransferMessage => ({
+  chainId: 1337,
+  sender: A,
+  recipient: B,
+  amount: '10',
+  nonce: 1,
+  timestamp: NOW,
+  ...fields,
+});
+
+/**
+ * Create an engine over the given applied transfers, with every account unfrozen unless listed
+ */
+const createEngine = (
+  rules: PolicyRule[],
+  applied: { message: TransferMessage; timestamp: number }[] = [],
+  options: Partial<PolicyEngineOptions> & { frozen?: string[] } = {},
+) => {
+  const { frozen = [], ...rest } = options;
+  return createPolicyEngine({
+    rules,
+    defaultAsset: 'TOKEN',
+    history: {
+      getByAddressSince: (address, since) => applied
+        .filter(({ message, timestamp }) => timestamp >= since
+          && [message.sender, message.recipient].includes(address))
+        .map((record, index) => ({
+          id: index + 1,
+          messageHash: '',
+          balances: { sender: '0' },
+          ...record,
+        }) as TransactionRecord),
+    },
+    feeRecipient: FEE_RECIPIENT,
+    isFrozen: (address) => frozen.includes(address),
+    ...rest,
+  });
+};
+
+const rejectsWith = (check: () => void, code: ErrorCode, details?: Record<string, unknown>) =>
+  assert.throws(check, (error: unknown) => {
+    const { code: actual, details: actualDetails } = error as {
+      code?: string;
+      details?: Record<string, unknown>;
+    };
+    return actual === code
+      && Object.entries(details ?? {}).every(([key, value]) => actualDetails?.[key] === value);
+  });
+
+describe('spending limits', () => {
+  const rules: PolicyRule[] = [{ account: '*', spendingLimit: { amount: 100n, window: HOUR } }];
+  const applied = [
+    { message: transfer({ amount: '50', fee: '10' }), timestamp: NOW - HOUR / 2 },
+    // Outside the window, and in another asset
+    { message: transfer({ amount: '90' }), timestamp: NOW - 2 * HOUR },
+    { message: transfer({ amount: '90', asset: 'GOLD' }), timestamp: NOW - HOUR / 2 },
+  ];
+
+  it('counts the amounts and fees the sender spent within the window', () => {
+    const engine = createEngine(rules, applied);
+
+    engine.check(transfer({ amount: '35', fee: '5' }), NOW);
+    rejectsWith(
+      () => engine.check(transfer({ amount: '40', fee: '1' }), NOW),
+      ErrorCode.SPENDING_LIMIT_EXCEEDED,
+      { asset: 'TOKEN', spent: '60', required: '41', remaining: '40' },
+    );
+  });
+
+  it('limits only the asset it names and lets spending age out', () => {
+    const engine = createEngine(rules, applied);
+
+    engine.check(transfer({ amount: '1000', asset: 'GOLD' }), NOW);
+    engine.check(transfer({ amount: '100' }), NOW + HOUR);
+  });
+
+  it('reports what is left in the account policy', () => {
+    const engine = createEngine(rules, applied);
+
+    assert.deepEqual(engine.getPolicy(A, NOW), {
+      address: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+      frozen: false,
+      spendingLimits: [{
+        asset: 'TOKEN',
+        limit: '100',
+        window: HOUR,
+        spent: '60',
+        remaining: '40',
+      }],
+      deniedRecipients: [],
+    } satisfies AccountPolicy);
+  });
+});
+
+describe('recipient lists', () => {
+  it('intersects allowlists and adds up denylists of the rules naming the sender', () => {
+    const engine = createEngine([
+      { account: '*', allowedRecipients: [B, C], deniedRecipients: [FEE_RECIPIENT] },
+      { account: A, allowedRecipients: [B] },
+      { account: B, deniedRecipients: [C] },
+    ]);
+
+    engine.check(transfer(), NOW);
+    rejectsWith(
+      () => engine.check(transfer({ recipient: C }), NOW),
+      ErrorCode.RECIPIENT_NOT_ALLOWED,
+    );
+    rejectsWith(
+      () => engine.check(transfer({ recipient: FEE_RECIPIENT }), NOW),
+      ErrorCode.RECIPIENT_DENIED,
+    );
+    rejectsWith(
+      () => engine.check(transfer({ sender: B, recipient: C }), NOW),
+      ErrorCode.RECIPIENT_DENIED,
+    );
+  });
+});
+
+describe('freezes', () => {
+  it('refuses frozen senders and recipients, naming the role', () => {
+    const engine = createEngine([], [], { frozen: [B, C] });
+
+    engine.check(transfer({ recipient: FEE_RECIPIENT }), NOW);
+    rejectsWith(
+      () => engine.check(transfer({ sender: B, recipient: A }), NOW),
+      ErrorCode.ACCOUNT_FROZEN,
+      { role: 'sender' },
+    );
+    rejectsWith(() => engine.check(transfer(), NOW), ErrorCode.ACCOUNT_FROZEN, { role: 'recipient' });
+    rejectsWith(() => engine.checkCredit(C), ErrorCode.ACCOUNT_FROZEN, { role: 'recipient' });
+    assert.equal(engine.getPolicy(B, NOW).frozen, true);
+  });
+
+  it('refuses a fee to a frozen fee recipient, but not a transfer without one', () => {
+    const engine = createEngine([], [], { frozen: [FEE_RECIPIENT] });
+
+    engine.check(transfer(), NOW);
+    rejectsWith(() => engine.check(transfer({ fee: '1' }), NOW), ErrorCode.ACCOUNT_FROZEN, {
+      role: 'feeRecipient',
+    });
+  });
+
+  it('refuses to replay a freeze or an unfreeze after a restart', async () => {
+    const server = await startServer();
+    const frozen = await server.admin<AccountPolicy>('freeze', { account: A });
+    const unfrozen = await server.admin<AccountPolicy>('unfreeze', { account: A });
+    assert.deepEqual([frozen.body.frozen, unfrozen.body.frozen], [true, false]);
+    await server.stop('SIGKILL');
+
+    const restarted = await startServer({}, server.dataDir);
+    try {
+      for (const { request } of [frozen, unfrozen]) {
+        const { status, body } = await restarted.post(`/admin/${request.action.type}`, request);
+        assert.equal(status, 400);
+        assert.equal(body.code, ErrorCode.DUPLICATE_SIGNATURE);
+      }
+      const { body: policy } = await restarted.get<AccountPolicy>(`/policy/${A}`);
+      assert.equal(policy.frozen, false);
+    } finally {
+      await restarted.stop();
+    }
+  });
+});
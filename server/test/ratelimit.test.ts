@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRateLimiter } from '../src/ratelimit';
+
+const wait = (milliseconds: number) =>
+  new Promise((resolve) => { setTimeout(resolve, milliseconds); });
+
+describe('createRateLimiter', () => {
+  it('allows one hit per key per window', async () => {
+    const limiter = createRateLimiter(50);
+
+    assert.equal(limiter.take(['address:a', 'ip:1']), undefined);
+    const retryAfter = limiter.take(['address:a', 'ip:2']);
+    assert.ok(retryAfter !== undefined && retryAfter > 0 && retryAfter <= 50);
+
+    await wait(60);
+    assert.equal(limiter.take(['address:a', 'ip:1']), undefined);
+  });
+
+  it('records nothing for a refused hit', () => {
+    const limiter = createRateLimiter(60_000);
+    limiter.take(['ip:1']);
+
+    assert.notEqual(limiter.take(['address:b', 'ip:1']), undefined);
+    assert.equal(limiter.take(['address:b', 'ip:2']), undefined);
+  });
+});
@@ -0,0 +1,145 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { signAdminAction } from '@ecdsa-node/protocol';
+import { AdminAction, AdminRequestBody } from '../src/types';
+
+/**
+ * Admin key of the test servers (0x33...33) and its address
+ */
+export const ADMIN_PRIVATE_KEY = '33'.repeat(32);
+export const ADMIN_ADDRESS = '0x5cbdd86a2fa8dc4bddd8a8f69dba48572eec07fb';
+
+const STARTUP_TIMEOUT = 30_000;
+
+/**
+ * Error fields of a failed request; successful responses are read with their own type
+ */
+export interface ErrorBody {
+  code?: string;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface TestResponse<T> {
+  status: number;
+  body: T;
+}
+
+export interface TestServer {
+  readonly url: string;
+  /** Directory holding the server's storage, journals and identity key */
+  readonly dataDir: string;
+  post<T = ErrorBody>(route: string, body: unknown): Promise<TestResponse<T>>;
+  get<T = ErrorBody>(route: string): Promise<TestResponse<T>>;
+  /** Sign an admin action of the given type and post it to /admin/<type> */
+  admin<T = ErrorBody>(type: AdminAction['type'], fields?: Partial<AdminAction>): Promise<
+    TestResponse<T> & { request: AdminRequestBody }
+  >;
+  /** Stop with SIGTERM, or SIGKILL to simulate a crash */
+  stop(signal?: NodeJS.Signals): Promise<void>;
+}
+
+const getFreePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const probe = net.createServer();
+  probe.once('error', reject);
+  probe.listen(0, () => {
+    const { port } = probe.address() as net.AddressInfo;
+    probe.close(() => resolve(port));
+  });
+});
+
+const waitForExit = (child: ChildProcess): Promise<void> => new Promise((resolve) => {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    resolve();
+    return;
+  }
+  child.once('exit', () => resolve());
+});
+
+/**
+ * Start the server from source on a free port, with its files in `dataDir`
+ * (a new temp directory unless given), so a test can restart it on the same data
+ */
+export async function startServer(
+  env: Record<string, string> = {},
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-')),
+): Promise<TestServer> {
+  const port = await getFreePort();
+  const url = `http://127.0.0.1:${port}`;
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: path.join(__dirname, '..'),
+    env: {
+      PATH: process.env.PATH,
+      PORT: String(port),
+      LOG_LEVEL: 'error',
+      ADMIN_ADDRESS,
+      STORAGE_FILE: path.join(dataDir, 'storage.json'),
+      HISTORY_FILE: path.join(dataDir, 'transactions.jsonl'),
+      BLOCKS_FILE: path.join(dataDir, 'blocks.jsonl'),
+      SUPPLY_FILE: path.join(dataDir, 'supply.jsonl'),
+      IDENTITY_KEY_FILE: path.join(dataDir, 'identity.key'),
+      ...env,
+    },
+    stdio: ['ignore', 'ignore', 'inherit'],
+  });
+
+  const request = async <T>(route: string, init?: RequestInit): Promise<TestResponse<T>> => {
+    const response = await fetch(`${url}${route}`, init);
+    return { status: response.status, body: await response.json() as T };
+  };
+  const post = <T = ErrorBody>(route: string, body: unknown) => request<T>(route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const get = <T = ErrorBody>(route: string) => request<T>(route);
+
+  const startedAt = Date.now();
+  for (;;) {
+    if (child.exitCode !== null) {
+      throw new Error(`Server exited with code ${child.exitCode} during startup`);
+    }
+    try {
+      await get('/info');
+      break;
+    } catch {
+      if (Date.now() - startedAt > STARTUP_TIMEOUT) {
+        child.kill('SIGKILL');
+        throw new Error('Server did not start in time');
+      }
+      await new Promise((resolve) => { setTimeout(resolve, 100); });
+    }
+  }
+
+  const admin = async <T = ErrorBody>(
+    type: AdminAction['type'],
+    fields: Partial<AdminAction> = {},
+  ) => {
+    const { body: info } = await get<{ chainId: number }>('/info');
+    const action: AdminAction = {
+      type,
+      chainId: info.chainId,
+      timestamp: Date.now(),
+      ...fields,
+    };
+    const signed = { action, signature: await signAdminAction(action, ADMIN_PRIVATE_KEY) };
+    return { ...(await post<T>(`/admin/${type}`, signed)), request: signed };
+  };
+
+  const stop = async (signal: NodeJS.Signals = 'SIGTERM') => {
+    child.kill(signal);
+    await waitForExit(child);
+  };
+
+  return {
+    url,
+    dataDir,
+    post,
+    get,
+    admin,
+    stop,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createStateStore,
+  LedgerState,
+  loadState,
+  writeStateAtomic,
+} from '../src/storage';
+import { setLogLevel } from '../src/logger/logger';
+
+setLogLevel('error');
+
+const A = '0x19e7e376e7c213b7e7e7e46cc70a5dd086daff2a';
+const B = '0x1563915e194d8cfba1943570603f7606a3115508';
+
+const initial: LedgerState = {
+  balances: { TOKEN: { [A]: 100n } },
+  nonces: {},
+  multisig: {},
+  totalSupply: { TOKEN: 100n },
+  frozen: [],
+  freezeSignatures: [],
+};
+
+const createStorageFile = (): string =>
+  path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'storage-')), 'storage.json');
+
+describe('loadState', () => {
+  it('starts from a copy of the initial state when there is no file', () => {
+    const state = loadState(createStorageFile(), initial, 'TOKEN');
+    assert.deepEqual(state, initial);
+    assert.notEqual(state.balances, initial.balances);
+  });
+
+  it('reads back what writeStateAtomic wrote, amounts beyond 2^53 included', () => {
+    const filePath = createStorageFile();
+    const state: LedgerState = {
+      balances: { TOKEN: { [A]: 2n ** 200n }, GOLD: { [B]: 7n } },
+      nonces: { [A]: 3 },
+      multisig: {},
+      totalSupply: { TOKEN: 2n ** 200n, GOLD: 7n },
+      frozen: [B],
+      freezeSignatures: ['ab'.repeat(64)],
+    };
+
+    writeStateAtomic(filePath, state);
+    assert.deepEqual(loadState(filePath, initial, 'TOKEN'), state);
+    assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ['storage.json']);
+  });
+
+  for (const [name, content] of [
+    ['not JSON', '{"balances": {'],
+    ['missing nonces', JSON.stringify({ balances: {} })],
+    ['a negative nonce', JSON.stringify({ balances: {}, nonces: { [A]: -1 } })],
+    ['non-string freeze signatures', JSON.stringify({ balances: {}, nonces: {}, freezeSignatures: [1] })],
+  ]) {
+    it(`moves a file with ${name} aside and starts from the initial state`, () => {
+      const filePath = createStorageFile();
+      fs.writeFileSync(filePath, content);
+
+      assert.deepEqual(loadState(filePath, initial, 'TOKEN'), initial);
+      const [moved, ...rest] = fs.readdirSync(path.dirname(filePath));
+      assert.match(moved, /^storage\.json\.corrupt-\d+$/);
+      assert.deepEqual(rest, []);
+    });
+  }
+
+  it('reads a file written before assets, string amounts and normalized addresses', () => {
+    const filePath = createStorageFile();
+    const mixedCase = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+    fs.writeFileSync(filePath, JSON.stringify({
+      balances: { [A]: 40, [mixedCase]: 60, [B]: 5 },
+      nonces: { [A]: 2, [mixedCase]: 4 },
+    }));
+
+    assert.deepEqual(loadState(filePath, initial, 'TOKEN'), {
+      balances: { TOKEN: { [A]: 100n, [B]: 5n } },
+      nonces: { [A]: 4 },
+      multisig: {},
+      totalSupply: { TOKEN: 105n },
+      frozen: [],
+      freezeSignatures: [],
+    });
+  });
+});
+
+describe('createStateStore', () => {
+  it('writes at once on flushNow', () => {
+    const filePath = createStorageFile();
+    const store = createStateStore(filePath, initial, 'TOKEN');
+
+    store.state.nonces[A] = 1;
+    store.flushNow();
+    assert.equal(loadState(filePath, initial, 'TOKEN').nonces[A], 1);
+  });
+
+  it('throws from flushNow when the file cannot be written', () => {
+    const filePath = createStorageFile();
+    const store = createStateStore(filePath, initial, 'TOKEN');
+    fs.rmSync(path.dirname(filePath), { recursive: true });
+
+    assert.throws(() => store.flushNow(), /ENOENT/);
+    assert.doesNotThrow(() => store.flush());
+  });
+});
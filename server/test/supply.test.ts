@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendJournal } from '../src/journal';
+import { setLogLevel } from '../src/logger/logger';
+import { createSupplyJournal } from '../src/supply';
+
+setLogLevel('error');
+
+const A = '0x19e7e376e7c213b7e7e7e46cc70a5dd086daff2a';
+const CHECKSUMMED_A = '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A';
+
+const createSupplyFile = (): string =>
+  path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'supply-')), 'supply.jsonl');
+
+describe('createSupplyJournal', () => {
+  it('numbers events, checksums accounts and keeps them across restarts', () => {
+    const filePath = createSupplyFile();
+    const journal = createSupplyJournal(filePath, 'TOKEN');
+    journal.append({ type: 'genesis', asset: 'TOKEN', amount: '100', totalSupply: '100' });
+    const minted = journal.append({
+      type: 'mint',
+      asset: 'TOKEN',
+      account: A,
+      amount: '5',
+      totalSupply: '105',
+      signature: 'ab',
+    });
+
+    assert.equal(minted.id, 2);
+    assert.equal(minted.account, CHECKSUMMED_A);
+    assert.deepEqual(createSupplyJournal(filePath, 'TOKEN').getAll(), journal.getAll());
+  });
+
+  it('pages events newest first, per asset', () => {
+    const journal = createSupplyJournal(createSupplyFile(), 'TOKEN');
+    journal.append({ type: 'genesis', asset: 'TOKEN', amount: '100', totalSupply: '100' });
+    journal.append({ type: 'mint', asset: 'GOLD', account: A, amount: '1', totalSupply: '1' });
+    journal.append({ type: 'faucet', asset: 'TOKEN', account: A, amount: '5', totalSupply: '105' });
+
+    const page = journal.getEvents(0, 1, 'TOKEN');
+    assert.deepEqual(page.events.map(({ type }) => type), ['faucet']);
+    assert.equal(page.total, 2);
+    assert.deepEqual(journal.getEvents(1, 10).events.map(({ id }) => id), [2, 1]);
+  });
+
+  it('reads events journaled before assets and string amounts existed as the default asset', () => {
+    const filePath = createSupplyFile();
+    appendJournal(filePath, {
+      id: 1,
+      type: 'mint',
+      account: A,
+      amount: 5,
+      totalSupply: 105,
+      timestamp: 1,
+    });
+
+    const [event] = createSupplyJournal(filePath, 'TOKEN').getAll();
+    assert.deepEqual(event, {
+      id: 1,
+      type: 'mint',
+      asset: 'TOKEN',
+      account: CHECKSUMMED_A,
+      amount: '5',
+      totalSupply: '105',
+      timestamp: 1,
+    });
+  });
+});